@@ -3,8 +3,10 @@
 import { Command } from 'commander';
 import inquirer from 'inquirer';
 import crypto from 'crypto';
-import { PrivateKey, Utils } from '@bsv/sdk';
-import { decryptPrivateKey, encryptPrivateKey } from './utils/crypto.js';
+import http from 'http';
+import { promises as fs } from 'fs';
+import { PrivateKey, Transaction, UnlockingScript, Utils } from '@bsv/sdk';
+import { decryptPrivateKey, encryptPrivateKey, isLegacyCiphertext } from './utils/crypto.js';
 import {
   getActiveWallet,
   getAllWallets,
@@ -13,14 +15,20 @@ import {
   WalletEnvironment,
   WalletInfo,
   getWalletByAddress,
+  getWalletByName,
   setPrivateKey,
   deletePrivateKey,
   getPrivateKey,
   clearActiveWallet,
   getLegacyWallet,
   deleteLegacyWallet,
+  getMnemonic,
+  setMnemonic,
+  deleteMnemonic,
+  getWalletAddresses,
+  replaceWalletSecrets,
 } from './utils/keytar.js';
-import { getVersion } from './utils/helper.js';
+import { getVersion, parseDateOption, parseDuration } from './utils/helper.js';
 import {
   colors,
   icons,
@@ -29,17 +37,110 @@ import {
   formatAddress,
   formatAmount,
   formatLink,
+  formatTimestamp,
+  formatTransaction,
   showWelcome,
+  setColorMode,
   animateSuccess,
   startTransactionAnimation,
   startAirdropAnimation,
+  table,
 } from './utils/ui.js';
-import Mnee, { SendMNEE, TxHistory, TransferStatus } from '@mnee/ts-sdk';
-import { loadConfig, saveConfig, clearConfig, startAuthFlow, getProfile, logout as logoutApi } from './utils/auth.js';
-
-const apiUrl = 'https://api-developer.mnee.net'; // Use https://api-stg-developer.mnee.net if testing in mnee stage env (need VPN to access)
-
-const getMneeInstance = (environment: WalletEnvironment, apiKey?: string): Mnee => {
+import Mnee, { MNEEConfig, SendMNEE, TxHistory, TransferOptions, TransferResponse, TransferStatus } from '@mnee/ts-sdk';
+import {
+  CliConfig,
+  DEFAULT_API_URL,
+  DEFAULT_PROFILE,
+  ProfileConfig,
+  loadConfig,
+  saveConfig,
+  startAuthFlow,
+  getProfile,
+  getProfileConfig,
+  getSelectedProfile,
+  setSelectedProfile,
+  logout as logoutApi,
+} from './utils/auth.js';
+import {
+  EXIT_CODES,
+  NonInteractiveOptions,
+  isNonInteractive,
+  readEnv,
+  readPasswordOption,
+  readStdin,
+} from './utils/input.js';
+import { ErrorCode, isJsonOutput, printJson, printJsonError, setJsonOutput } from './utils/output.js';
+import { PayoutResult, PayoutRow, defaultReportPath, readPayoutFile, writePayoutReport } from './utils/payouts.js';
+import {
+  DEFAULT_DERIVATION_PATH,
+  deriveKeys,
+  discoverAddresses,
+  generateMnemonic,
+  getAddressPath,
+  isValidMnemonic,
+  normalizeMnemonic,
+} from './utils/hd.js';
+import { getTxTimes } from './utils/blocktime.js';
+import {
+  Contact,
+  findContact,
+  getContactNames,
+  isContactReference,
+  loadContacts,
+  saveContacts,
+} from './utils/contacts.js';
+import { deleteHistoryCache, readHistoryCache, syncHistory } from './utils/historyCache.js';
+import {
+  HISTORY_EXPORT_FORMATS,
+  HistoryExportRow,
+  resolveExportFormat,
+  writeHistoryExport,
+} from './utils/historyExport.js';
+import { WatchEvent, WatchEventKind, runWatchHook } from './utils/watch.js';
+import { SETTINGS, Setting, findSetting, formatSettingValue, parseSettingValue } from './utils/settings.js';
+import { ApiError, ApiRoutes, generateApiToken, startApiServer } from './utils/server.js';
+import { MAX_UNLOCK_MS, requestAgent, runAgent, spawnAgent } from './utils/agent.js';
+import { BackupContents, BackupWallet, readBackup, writeBackup } from './utils/backup.js';
+import { KeyShare, MAX_SHARES, checkShareFits, combineSecret, decodeShare, splitKey } from './utils/shamir.js';
+import { QrMatrix, createQr, renderQrTerminal, writeQrFile } from './utils/qr.js';
+import { TICKET_TRACKING_MS, loadPendingTickets, savePendingTickets, trackTicket } from './utils/tickets.js';
+import {
+  Delivery,
+  WEBHOOK_EVENT_TYPES,
+  Webhook,
+  WebhookEventType,
+  attemptDelivery,
+  createDeliveries,
+  createWebhook,
+  isDeliveryDue,
+  loadDeliveries,
+  loadWebhooks,
+  saveDeliveries,
+  saveWebhooks,
+  validateWebhookUrl,
+  verifyWebhookSignature,
+} from './utils/webhooks.js';
+import {
+  TxFile,
+  TX_FILE_FORMAT,
+  TX_FILE_VERSION,
+  checkTransferOutputs,
+  decodeTransferOutputs,
+  readTxFile,
+  writeTxFile,
+} from './utils/txfile.js';
+
+// Settings of the profile selected with --profile or MNEE_PROFILE, loaded before each command runs
+let activeProfile: ProfileConfig = {};
+// Global settings from config.json (see mnee config), also loaded before each command runs
+let cliConfig: CliConfig = {};
+
+const getApiUrl = (): string => activeProfile.apiUrl || DEFAULT_API_URL;
+
+const getMneeInstance = (
+  environment: WalletEnvironment,
+  apiKey: string | undefined = activeProfile.mneeApiKey,
+): Mnee => {
   return new Mnee({ environment, apiKey });
 };
 
@@ -52,7 +153,7 @@ const pollForTxStatus = async (
   ticketId: string,
   onStatusUpdate?: (status: TransferStatus) => void,
 ): Promise<TransferStatus> => {
-  const maxAttempts = 60; // 5 minutes with 5 second intervals
+  const maxAttempts = 60; // 1 minute with 1 second intervals
   let attempts = 0;
   let lastStatus: string | null = null;
 
@@ -71,7 +172,7 @@ const pollForTxStatus = async (
         return status;
       }
 
-      // Wait 5 seconds before next poll
+      // Wait 1 second before next poll
       await new Promise((resolve) => setTimeout(resolve, 1000));
       attempts++;
     } catch (error) {
@@ -80,18 +181,435 @@ const pollForTxStatus = async (
     }
   }
 
-  throw new Error('Transaction status polling timed out after 5 minutes');
+  throw new Error('Transaction status polling timed out after 1 minute');
 };
 
 const safePrompt = async (questions: any) => {
   try {
+    // Keep stdout clean for the JSON document by prompting on stderr
+    if (isJsonOutput()) {
+      return await inquirer.createPromptModule({ output: process.stderr })(questions);
+    }
     return await inquirer.prompt(questions);
   } catch {
-    console.log(`\n${icons.error} ${colors.error('Operation cancelled by user.')}`);
+    if (isJsonOutput()) {
+      reportError('CANCELLED', 'Operation cancelled by user.');
+    } else {
+      console.log(`\n${icons.error} ${colors.error('Operation cancelled by user.')}`);
+    }
     process.exit(1);
   }
 };
 
+// Reports a failure as a human-readable line, or as a JSON error object with --json
+const reportError = (
+  code: ErrorCode,
+  message: string,
+  exitCode: number = EXIT_CODES.FAILURE,
+  details?: Record<string, unknown>,
+) => {
+  if (isJsonOutput()) {
+    printJsonError(code, message, details);
+  } else {
+    console.error(`${icons.error} ${colors.error(message)}`);
+  }
+  process.exitCode = exitCode;
+};
+
+// A declined confirmation: a plain note, or a CANCELLED error with --json so stdout stays one JSON document
+const reportCancelled = () => {
+  if (isJsonOutput()) {
+    reportError('CANCELLED', 'Operation cancelled.');
+    return;
+  }
+  console.log('🚫 Operation cancelled.');
+};
+
+// Once a ticket exists the transfer may still go through, so a lost status must not read as "failed, retry"
+const reportUnconfirmed = (ticketId: string, reason: string, details: Record<string, unknown>) => {
+  reportError(
+    'TRANSFER_UNCONFIRMED',
+    `Ticket ${ticketId} was broadcast, but its final status is unknown (${reason}). Check it with \`mnee status ${ticketId}\` before sending again.`,
+    EXIT_CODES.UNKNOWN_OUTCOME,
+    { ticketId, ...details },
+  );
+};
+
+const failMissingInput = (message: string): never => {
+  reportError('MISSING_INPUT', message, EXIT_CODES.MISSING_INPUT);
+  process.exit(EXIT_CODES.MISSING_INPUT);
+};
+
+const requireActiveWallet = async (): Promise<WalletInfo | null> => {
+  const activeWallet = await getActiveWallet();
+
+  if (!activeWallet) {
+    if (isJsonOutput()) {
+      reportError(
+        'NO_ACTIVE_WALLET',
+        'No active wallet found. Run mnee create first or mnee use <wallet-name> to select a wallet.',
+      );
+    } else {
+      console.error(
+        `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
+          'mnee create',
+        )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
+      );
+      process.exitCode = EXIT_CODES.FAILURE;
+    }
+  }
+
+  return activeWallet;
+};
+
+// Turns "@name" into the saved contact's address; plain addresses pass through unchanged
+const resolveRecipient = async (input: string): Promise<string | null> => {
+  if (!isContactReference(input)) {
+    return input.trim();
+  }
+
+  const contact = findContact(await loadContacts(), input);
+  if (!contact) {
+    reportError(
+      'CONTACT_NOT_FOUND',
+      `No contact named "${input.trim()}". Run mnee contacts list to see saved contacts.`,
+    );
+    return null;
+  }
+
+  if (!isJsonOutput()) {
+    console.log(`${icons.arrow} ${colors.primary(`@${contact.name}`)} ${colors.muted(contact.address)}`);
+  }
+  return contact.address;
+};
+
+// Watch-only wallets have no key, so commands that sign or reveal keys refuse them
+const requireSigningWallet = (wallet: WalletInfo, action: string): boolean => {
+  if (wallet.watchOnly) {
+    reportError('WATCH_ONLY', `Wallet "${wallet.name}" is watch-only and cannot ${action}.`);
+    return false;
+  }
+  return true;
+};
+
+const getWalletPassword = async (options: NonInteractiveOptions, message: string): Promise<string> => {
+  const provided = await readPasswordOption(options);
+  if (provided !== undefined) {
+    return provided;
+  }
+
+  if (isNonInteractive(options)) {
+    failMissingInput('A wallet password is required. Use --password-stdin, --password-fd or --password-env.');
+  }
+
+  const { password } = await safePrompt([
+    {
+      type: 'password',
+      name: 'password',
+      message,
+      mask: '*',
+    },
+  ]);
+  return password;
+};
+
+const confirmAction = async (options: NonInteractiveOptions, message: string): Promise<boolean> => {
+  if (options.yes) {
+    return true;
+  }
+
+  if (isNonInteractive(options)) {
+    failMissingInput(`Confirmation required: "${message}" Pass --yes to confirm.`);
+  }
+
+  const { confirm } = await safePrompt([
+    {
+      type: 'confirm',
+      name: 'confirm',
+      message,
+      default: false,
+    },
+  ]);
+  return confirm;
+};
+
+// True when the decrypted hex is a key for the address. Legacy CBC ciphertexts have no authentication tag and
+// occasionally "decrypt" under a wrong password, so the result must be checked before it is trusted or stored.
+const keyMatchesAddress = (privateKeyHex: string, address: string): boolean => {
+  try {
+    return PrivateKey.fromString(privateKeyHex).toAddress() === address;
+  } catch (error) {
+    return false;
+  }
+};
+
+// True when the recovery phrase derives the HD wallet's first address
+const mnemonicMatchesWallet = (mnemonic: string, wallet: WalletInfo): boolean => {
+  const first = wallet.hd?.addresses.find((a) => a.address === wallet.address);
+  if (!wallet.hd || !first) {
+    return false;
+  }
+  try {
+    return deriveKeys(mnemonic, wallet.hd.derivationPath, [first.index])[0].toAddress() === wallet.address;
+  } catch (error) {
+    return false;
+  }
+};
+
+// Decrypts a stored wallet key, upgrading legacy ciphertexts to the current format once the password is known
+const decryptWalletKey = async (address: string, encryptedKey: string, password: string): Promise<string | null> => {
+  const privateKeyHex = decryptPrivateKey(encryptedKey, password);
+  if (!privateKeyHex || !keyMatchesAddress(privateKeyHex, address)) {
+    return null;
+  }
+
+  if (isLegacyCiphertext(encryptedKey)) {
+    try {
+      await setPrivateKey(address, encryptPrivateKey(privateKeyHex, password));
+    } catch (error) {
+      // Keep the legacy ciphertext; the upgrade is retried next time
+    }
+  }
+
+  return privateKeyHex;
+};
+
+// Decrypts an HD wallet's recovery phrase, or reports why it could not be unlocked
+const decryptWalletMnemonic = async (wallet: WalletInfo, password: string): Promise<string | null> => {
+  const encryptedMnemonic = await getMnemonic(wallet.address);
+  if (!encryptedMnemonic) {
+    reportError('KEY_NOT_FOUND', 'Recovery phrase not found for this wallet.');
+    return null;
+  }
+
+  const mnemonic = decryptPrivateKey(encryptedMnemonic, password);
+  if (!mnemonic) {
+    reportError('INVALID_PASSWORD', 'Incorrect password! Decryption failed.');
+    return null;
+  }
+
+  return mnemonic;
+};
+
+// Decrypts the key of the wallet's first address, or reports why it could not be unlocked
+const decryptWalletPrivateKey = async (wallet: WalletInfo, password: string): Promise<PrivateKey | null> => {
+  const encryptedKey = await getPrivateKey(wallet.address);
+  if (!encryptedKey) {
+    reportError('KEY_NOT_FOUND', 'Private key not found for this wallet.');
+    return null;
+  }
+
+  const privateKeyHex = await decryptWalletKey(wallet.address, encryptedKey, password);
+  if (!privateKeyHex) {
+    reportError('INVALID_PASSWORD', 'Incorrect password! Decryption failed.');
+    return null;
+  }
+
+  return PrivateKey.fromString(privateKeyHex);
+};
+
+// Keys cached by `mnee unlock`, or null when the agent is not running or does not hold every wallet address
+const getAgentKeys = async (wallet: WalletInfo): Promise<PrivateKey[] | null> => {
+  const response = await requestAgent({ op: 'get', address: wallet.address });
+  if (!response?.keys) {
+    return null;
+  }
+
+  try {
+    const keys = response.keys.map((wif) => PrivateKey.fromWif(wif));
+    const addresses = getWalletAddresses(wallet);
+    if (keys.length !== addresses.length || !keys.every((key) => addresses.includes(key.toAddress()))) {
+      return null;
+    }
+    if (!isJsonOutput()) {
+      console.log(colors.muted(`${icons.unlock} Using the keys unlocked with mnee unlock`));
+    }
+    return keys;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Asks for the wallet password and returns the decrypted key, or reports why it could not be unlocked
+const unlockWalletKey = async (wallet: WalletInfo, options: NonInteractiveOptions): Promise<PrivateKey | null> => {
+  const cached = await getAgentKeys(wallet);
+  if (cached) {
+    return cached[0];
+  }
+  const password = await getWalletPassword(options, 'Enter your wallet password:');
+  return decryptWalletPrivateKey(wallet, password);
+};
+
+type UnlockFailure = { code: ErrorCode; message: string };
+
+// Returns a key for every wallet address (first address first), or why they could not be decrypted. HD wallet
+// keys beyond the first are derived from the decrypted mnemonic. Nothing is printed, so `mnee serve` can use it.
+const decryptWalletKeys = async (wallet: WalletInfo, password: string): Promise<PrivateKey[] | UnlockFailure> => {
+  const encryptedKey = await getPrivateKey(wallet.address);
+  if (!encryptedKey) {
+    return { code: 'KEY_NOT_FOUND', message: 'Private key not found for this wallet.' };
+  }
+  const privateKeyHex = await decryptWalletKey(wallet.address, encryptedKey, password);
+  if (!privateKeyHex) {
+    return { code: 'INVALID_PASSWORD', message: 'Incorrect password! Decryption failed.' };
+  }
+  const privateKey = PrivateKey.fromString(privateKeyHex);
+
+  if (!wallet.hd || wallet.hd.addresses.length <= 1) {
+    return [privateKey];
+  }
+
+  const encryptedMnemonic = await getMnemonic(wallet.address);
+  if (!encryptedMnemonic) {
+    return { code: 'KEY_NOT_FOUND', message: 'Recovery phrase not found for this wallet.' };
+  }
+  const mnemonic = decryptPrivateKey(encryptedMnemonic, password);
+  if (!mnemonic) {
+    return { code: 'INVALID_PASSWORD', message: 'Incorrect password! Decryption failed.' };
+  }
+
+  const derived = wallet.hd.addresses.filter((a) => a.address !== wallet.address);
+  return [
+    privateKey,
+    ...deriveKeys(
+      mnemonic,
+      wallet.hd.derivationPath,
+      derived.map((a) => a.index),
+    ),
+  ];
+};
+
+// Like unlockWalletKey, but returns a key for every wallet address (first address first)
+const unlockWalletKeys = async (wallet: WalletInfo, options: NonInteractiveOptions): Promise<PrivateKey[] | null> => {
+  const cached = await getAgentKeys(wallet);
+  if (cached) {
+    return cached;
+  }
+  const password = await getWalletPassword(options, 'Enter your wallet password:');
+  const keys = await decryptWalletKeys(wallet, password);
+  if (!Array.isArray(keys)) {
+    reportError(keys.code, keys.message);
+    return null;
+  }
+  return keys;
+};
+
+// Decrypts the stored key and, for HD wallets, the recovery phrase, so both can be re-encrypted together
+const decryptWalletSecrets = async (
+  wallet: WalletInfo,
+  password: string,
+): Promise<{ privateKey: string; mnemonic?: string } | UnlockFailure> => {
+  const encryptedKey = await getPrivateKey(wallet.address);
+  if (!encryptedKey) {
+    return { code: 'KEY_NOT_FOUND', message: 'Private key not found for this wallet.' };
+  }
+  // Both secrets are written back under the new password, so a wrong-password legacy decryption must not pass
+  const privateKey = decryptPrivateKey(encryptedKey, password);
+  if (!privateKey || !keyMatchesAddress(privateKey, wallet.address)) {
+    return { code: 'INVALID_PASSWORD', message: 'Incorrect password! Decryption failed.' };
+  }
+  if (!wallet.hd) {
+    return { privateKey };
+  }
+
+  const encryptedMnemonic = await getMnemonic(wallet.address);
+  if (!encryptedMnemonic) {
+    return { code: 'KEY_NOT_FOUND', message: 'Recovery phrase not found for this wallet.' };
+  }
+  const mnemonic = decryptPrivateKey(encryptedMnemonic, password);
+  if (!mnemonic || !mnemonicMatchesWallet(mnemonic, wallet)) {
+    return { code: 'INVALID_PASSWORD', message: 'Incorrect password! Decryption failed.' };
+  }
+  return { privateKey, mnemonic };
+};
+
+// Derives the next unused receive index of an HD wallet and adds it to the wallet's addresses
+const deriveNextAddress = async (wallet: WalletInfo, options: NonInteractiveOptions): Promise<void> => {
+  if (!wallet.hd) {
+    reportError(
+      'WALLET_NOT_FOUND',
+      `Wallet "${wallet.name}" has a single key. Only wallets created with --mnemonic can derive new addresses.`,
+    );
+    return;
+  }
+
+  const password = await getWalletPassword(options, 'Enter your wallet password:');
+  const mnemonic = await decryptWalletMnemonic(wallet, password);
+  if (!mnemonic) {
+    return;
+  }
+
+  const index = Math.max(...wallet.hd.addresses.map((a) => a.index)) + 1;
+  const [privateKey] = deriveKeys(mnemonic, wallet.hd.derivationPath, [index]);
+  const derived = { index, address: privateKey.toAddress() };
+
+  const wallets = await getAllWallets();
+  const stored = wallets.find((w) => w.address === wallet.address);
+  if (!stored?.hd) {
+    reportError('WALLET_NOT_FOUND', `Wallet "${wallet.name}" not found.`);
+    return;
+  }
+  stored.hd.addresses.push(derived);
+  await saveWallets(wallets);
+  if (stored.isActive) {
+    await setActiveWallet(stored);
+  }
+
+  const path = getAddressPath(stored.hd, index);
+  if (isJsonOutput()) {
+    printJson({ name: wallet.name, environment: wallet.environment, index, path, address: derived.address });
+    return;
+  }
+
+  showBox(
+    `${icons.wallet} ${colors.highlight('New Receive Address')}\n\n` +
+      `${icons.dot} Wallet: ${colors.primary(wallet.name)}\n` +
+      `${icons.dot} Path: ${colors.muted(path)}\n` +
+      `${icons.dot} Address: ${colors.muted(derived.address)}`,
+    'Wallet Address',
+    'success',
+  );
+};
+
+// MNEE amounts have 5 decimal places
+const MNEE_DECIMALS = 5;
+
+// Why an amount cannot go into a payment URI, or true. Amounts with more decimals than MNEE supports are refused
+// rather than rounded, so the payer is never asked for a different amount than the one requested.
+const validateRequestAmount = (amount: number): true | string => {
+  if (amount * 10 ** MNEE_DECIMALS > Number.MAX_SAFE_INTEGER) {
+    return 'Amount is too large';
+  }
+  if (Number(amount.toFixed(MNEE_DECIMALS)) !== amount) {
+    return `MNEE amounts have at most ${MNEE_DECIMALS} decimal places`;
+  }
+  return true;
+};
+
+// "mnee:<address>?amount=<amount>[&memo=<text>][&network=sandbox]", percent-encoded like a BIP 21 URI. The amount
+// is written as a plain decimal without trailing zeros, never in exponent notation.
+const buildPaymentUri = (wallet: WalletInfo, amount: number, memo?: string): string => {
+  const params = [`amount=${amount.toFixed(MNEE_DECIMALS).replace(/\.?0+$/, '')}`];
+  if (memo) {
+    params.push(`memo=${encodeURIComponent(memo)}`);
+  }
+  if (wallet.environment === 'sandbox') {
+    params.push('network=sandbox');
+  }
+  return `mnee:${wallet.address}?${params.join('&')}`;
+};
+
+// Writes a QR code file, reporting a bad extension or write error; returns false when nothing was written
+const saveQrFile = async (file: string, text: string): Promise<boolean> => {
+  try {
+    await writeQrFile(file, createQr(text));
+    return true;
+  } catch (error: any) {
+    reportError('INVALID_FILE', `Could not write ${file}: ${error?.message || 'Unknown error'}`);
+    return false;
+  }
+};
+
 const program = new Command();
 if (!process.argv.slice(2).length) {
   await showWelcome();
@@ -102,6 +620,8 @@ program
   .name('mnee')
   .description(colors.muted('CLI for interacting with MNEE tokens'))
   .version(getVersion())
+  .option('--json', 'Output results as a single JSON document')
+  .option('--profile <name>', 'Use a named profile (defaults to MNEE_PROFILE, then "default")')
   .configureHelp({
     sortSubcommands: true,
     subcommandTerm: (cmd) => cmd.name() + ' ' + cmd.usage(),
@@ -117,6 +637,23 @@ program
       `${colors.muted('For more help:')} ${colors.primary('mnee <command> --help')}\n`,
   );
 
+// Switch the output mode and load the selected profile before any command runs
+program.hook('preAction', async (_command, actionCommand) => {
+  cliConfig = await loadConfig();
+  setJsonOutput(Boolean(program.opts().json) || cliConfig.outputFormat === 'json');
+  setColorMode(cliConfig.color);
+
+  const profileName = program.opts().profile || readEnv('MNEE_PROFILE') || DEFAULT_PROFILE;
+  setSelectedProfile(profileName);
+  const profileConfig = getProfileConfig(cliConfig, profileName);
+  // Profile management still works while the selected profile is missing (e.g. to add it)
+  if (!profileConfig && actionCommand.parent?.name() !== 'profile') {
+    reportError('PROFILE_NOT_FOUND', `Profile "${profileName}" not found. Run mnee profile list to see the profiles.`);
+    process.exit(EXIT_CODES.FAILURE);
+  }
+  activeProfile = profileConfig || {};
+});
+
 // Add error handling for the main program
 program.exitOverride((err) => {
   if (err.code === 'commander.help') {
@@ -130,6 +667,7 @@ program
   .description('Generate a new wallet and store keys securely')
   .option('-s, --sandbox', 'Create a sandbox wallet')
   .option('-p, --production', 'Create a production wallet')
+  .option('-m, --mnemonic', 'Create an HD wallet backed by a BIP39 recovery phrase')
   .action(async (options) => {
     try {
       const existingWallets = await getAllWallets();
@@ -150,7 +688,7 @@ program
               { name: 'Production', value: 'production' },
               { name: 'Sandbox', value: 'sandbox' },
             ],
-            default: 'production',
+            default: activeProfile.environment || 'production',
           },
         ]);
         environment = result.environment;
@@ -177,8 +715,15 @@ program
         },
       ]);
 
-      const entropy = crypto.randomBytes(32);
-      const privateKey = PrivateKey.fromString(entropy.toString('hex'));
+      let privateKey: PrivateKey;
+      let mnemonic: string | undefined;
+      if (options.mnemonic) {
+        mnemonic = generateMnemonic();
+        [privateKey] = deriveKeys(mnemonic, DEFAULT_DERIVATION_PATH, [0]);
+      } else {
+        const entropy = crypto.randomBytes(32);
+        privateKey = PrivateKey.fromString(entropy.toString('hex'));
+      }
       const address = privateKey.toAddress();
 
       const { password, confirmPassword } = await safePrompt([
@@ -187,33 +732,7 @@ program
           name: 'password',
           message: 'Set a password for your wallet:',
           mask: '*',
-          validate: (input: string) => {
-            if (input.length < 8) {
-              return 'Password must be at least 8 characters long';
-            }
-
-            // Check for at least one uppercase letter
-            if (!/[A-Z]/.test(input)) {
-              return 'Password must contain at least one uppercase letter';
-            }
-
-            // Check for at least one lowercase letter
-            if (!/[a-z]/.test(input)) {
-              return 'Password must contain at least one lowercase letter';
-            }
-
-            // Check for at least one number
-            if (!/[0-9]/.test(input)) {
-              return 'Password must contain at least one number';
-            }
-
-            // Check for at least one special character
-            if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(input)) {
-              return 'Password must contain at least one special character';
-            }
-
-            return true;
-          },
+          validate: validatePassword,
         },
         {
           type: 'password',
@@ -242,10 +761,16 @@ program
         name: walletName,
         isActive: true,
       };
+      if (mnemonic) {
+        newWallet.hd = { derivationPath: DEFAULT_DERIVATION_PATH, addresses: [{ index: 0, address }] };
+      }
 
       wallets.push(newWallet);
       await saveWallets(wallets);
       await setPrivateKey(address, encryptedKey);
+      if (mnemonic) {
+        await setMnemonic(address, encryptPrivateKey(mnemonic, password));
+      }
       await setActiveWallet(newWallet);
 
       animateSuccess('Wallet created successfully!');
@@ -262,6 +787,19 @@ program
           'New Wallet Created',
           'success',
         );
+
+        if (mnemonic) {
+          showBox(
+            `${icons.key} ${colors.highlight('Recovery Phrase')}\n\n` +
+              `${mnemonic}\n\n` +
+              `${icons.dot} Path: ${colors.muted(getAddressPath(newWallet.hd!, 0))}\n\n` +
+              `${icons.warning} ${colors.error('Write these words down and keep them offline.')}\n` +
+              `${colors.error('Anyone with this phrase can spend from every address of this wallet.')}\n` +
+              `${colors.muted('Recover with: mnee import --mnemonic')}`,
+            'Back Up Your Wallet',
+            'warning',
+          );
+        }
       }, 1200);
     } catch (error) {
       console.error(`\n${icons.error} ${colors.error('Error creating wallet:')}`, error);
@@ -271,15 +809,46 @@ program
 program
   .command('address')
   .description('Retrieve your wallet address')
-  .action(async () => {
-    const activeWallet = await getActiveWallet();
-
+  .option('--new', 'Derive the next receive address (HD wallets)')
+  .option('--qr', 'Draw the address as a QR code')
+  .option('--qr-out <path>', 'Write the address QR code to a .png or .svg file')
+  .option('--password-stdin', 'Read the wallet password from stdin')
+  .option('--password-fd <fd>', 'Read the wallet password from a file descriptor')
+  .option('--password-env <name>', 'Read the wallet password from an environment variable')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (options: NonInteractiveOptions & { new?: boolean; qr?: boolean; qrOut?: string }) => {
+    const activeWallet = await requireActiveWallet();
     if (!activeWallet) {
-      console.error(
-        `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
-          'mnee create',
-        )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
-      );
+      return;
+    }
+
+    if (options.new) {
+      await deriveNextAddress(activeWallet, options);
+      return;
+    }
+
+    const hd = activeWallet.hd;
+
+    if (options.qrOut && !(await saveQrFile(options.qrOut, activeWallet.address))) {
+      return;
+    }
+
+    if (isJsonOutput()) {
+      printJson({
+        name: activeWallet.name,
+        environment: activeWallet.environment,
+        address: activeWallet.address,
+        watchOnly: Boolean(activeWallet.watchOnly),
+        qrFile: options.qrOut || null,
+        ...(hd && {
+          derivationPath: hd.derivationPath,
+          addresses: hd.addresses.map((a) => ({
+            index: a.index,
+            path: getAddressPath(hd, a.index),
+            address: a.address,
+          })),
+        }),
+      });
       return;
     }
 
@@ -291,24 +860,176 @@ program
             ? colors.success(activeWallet.environment)
             : colors.warning(activeWallet.environment)
         }\n` +
-        `${icons.dot} Address: ${colors.muted(activeWallet.address)}`,
+        `${icons.dot} Address: ${colors.muted(activeWallet.address)}` +
+        (activeWallet.watchOnly ? `\n${icons.dot} Type: ${colors.info('watch-only')}` : '') +
+        (hd && hd.addresses.length > 1
+          ? `\n\n${colors.highlight('Derived Addresses')}\n` +
+            hd.addresses
+              .map(
+                (a) => `${icons.arrow} ${colors.muted(a.address)} ${colors.muted(`(${getAddressPath(hd, a.index)})`)}`,
+              )
+              .join('\n')
+          : ''),
       'Wallet Address',
       'info',
     );
+
+    if (options.qr) {
+      console.log(`\n${renderQrTerminal(createQr(activeWallet.address))}\n`);
+    }
+    if (options.qrOut) {
+      console.log(`${icons.dot} QR code saved to ${colors.primary(options.qrOut)}`);
+    }
+  });
+
+program
+  .command('request <amount>')
+  .description('Build a payment request URI for the active wallet, shown as text and as a QR code')
+  .option('--memo <text>', 'Note for the payer, such as an invoice number')
+  .option('--qr-out <path>', 'Also write the QR code to a .png or .svg file')
+  .action(async (amount: string, options: { memo?: string; qrOut?: string }) => {
+    const activeWallet = await requireActiveWallet();
+    if (!activeWallet) {
+      return;
+    }
+
+    const validation = validateAmount(amount);
+    const requestValidation = validation === true ? validateRequestAmount(parseFloat(amount)) : validation;
+    if (requestValidation !== true) {
+      reportError('INVALID_AMOUNT', requestValidation as string);
+      return;
+    }
+
+    const uri = buildPaymentUri(activeWallet, parseFloat(amount), options.memo);
+    let qr: QrMatrix;
+    try {
+      qr = createQr(uri);
+    } catch (error: any) {
+      reportError('INVALID_INPUT', `${error.message}. Use a shorter memo.`);
+      return;
+    }
+    if (options.qrOut && !(await saveQrFile(options.qrOut, uri))) {
+      return;
+    }
+
+    if (isJsonOutput()) {
+      printJson({
+        wallet: activeWallet.name,
+        environment: activeWallet.environment,
+        address: activeWallet.address,
+        amount: parseFloat(amount),
+        memo: options.memo || null,
+        uri,
+        qrFile: options.qrOut || null,
+      });
+      return;
+    }
+
+    showBox(
+      `${icons.money} ${colors.highlight('Payment Request')}\n\n` +
+        `${icons.dot} Amount: ${formatAmount(amount)}\n` +
+        `${icons.dot} To: ${colors.primary(activeWallet.name)} ${colors.muted(`(${activeWallet.address})`)}\n` +
+        (options.memo ? `${icons.dot} Memo: ${options.memo}\n` : '') +
+        `\n${colors.muted(uri)}`,
+      'Request',
+      'info',
+    );
+    console.log(`\n${renderQrTerminal(qr)}\n`);
+    if (options.qrOut) {
+      console.log(`${icons.dot} QR code saved to ${colors.primary(options.qrOut)}`);
+    }
   });
 
+// Balances of every wallet, grouped by environment with one batched balances request per environment
+const runPortfolio = async (): Promise<void> => {
+  const wallets = await getAllWallets();
+  if (wallets.length === 0) {
+    reportError('NO_WALLETS', 'No wallets found. Run mnee create to create a wallet.');
+    return;
+  }
+
+  const environments = (['production', 'sandbox'] as WalletEnvironment[]).filter((env) =>
+    wallets.some((w) => w.environment === env),
+  );
+
+  const spinner = createSpinner(`Fetching balances for ${wallets.length} wallet${wallets.length !== 1 ? 's' : ''}...`);
+  spinner.start();
+
+  try {
+    const groups = await Promise.all(
+      environments.map(async (environment) => {
+        const mneeInstance = getMneeInstance(environment);
+        const envWallets = wallets.filter((w) => w.environment === environment);
+        const balances = await mneeInstance.balances(envWallets.flatMap(getWalletAddresses));
+        const atomicByAddress = new Map(balances.map((b) => [b.address, b.amount]));
+
+        const rows = envWallets.map((wallet) => {
+          const atomicBalance = getWalletAddresses(wallet).reduce(
+            (sum, address) => sum + (atomicByAddress.get(address) || 0),
+            0,
+          );
+          return { wallet, atomicBalance, balance: mneeInstance.fromAtomicAmount(atomicBalance) };
+        });
+        const atomicTotal = rows.reduce((sum, row) => sum + row.atomicBalance, 0);
+
+        return { environment, rows, atomicTotal, total: mneeInstance.fromAtomicAmount(atomicTotal) };
+      }),
+    );
+
+    spinner.succeed('Balances retrieved!');
+
+    if (isJsonOutput()) {
+      printJson({
+        environments: groups.map((group) => ({
+          environment: group.environment,
+          total: group.total,
+          atomicTotal: group.atomicTotal,
+          wallets: group.rows.map(({ wallet, balance, atomicBalance }) => ({
+            name: wallet.name,
+            address: wallet.address,
+            isActive: wallet.isActive,
+            watchOnly: Boolean(wallet.watchOnly),
+            balance,
+            atomicBalance,
+          })),
+        })),
+      });
+      return;
+    }
+
+    groups.forEach((group) => {
+      const envLabel =
+        group.environment === 'production' ? colors.success('Production Wallets') : colors.warning('Sandbox Wallets');
+      console.log(`\n${icons.wallet} ${envLabel}\n`);
+      table(
+        group.rows.map(({ wallet, balance }) => ({
+          Wallet: wallet.name + (wallet.isActive ? colors.cyan(' ←') : ''),
+          Address: colors.muted(wallet.address) + (wallet.watchOnly ? colors.info(' [WATCH-ONLY]') : ''),
+          Balance: formatAmount(balance),
+        })),
+        ['Wallet', 'Address', 'Balance'],
+      );
+      console.log(`\n${icons.money} Total: ${formatAmount(group.total)}`);
+    });
+    console.log('');
+  } catch (error) {
+    spinner.fail(colors.error('Error fetching balances'));
+    reportError('REQUEST_FAILED', `Error fetching balances: ${(error as Error).message}`);
+  }
+};
+
 program
   .command('balance')
   .description('Get the balance of the wallet')
-  .action(async () => {
-    const activeWallet = await getActiveWallet();
+  .option('-a, --all', 'Show the balances of all wallets, grouped by environment')
+  .action(async (options: { all?: boolean }) => {
+    if (options.all) {
+      await runPortfolio();
+      return;
+    }
 
+    const activeWallet = await requireActiveWallet();
     if (!activeWallet) {
-      console.error(
-        `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
-          'mnee create',
-        )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
-      );
       return;
     }
 
@@ -319,24 +1040,116 @@ program
 
     try {
       const mneeInstance = getMneeInstance(activeWallet.environment);
-      const { decimalAmount } = await mneeInstance.balance(activeWallet.address);
+      const { amount, decimalAmount, balances } = await getWalletBalance(mneeInstance, activeWallet);
 
       spinner.succeed(`Balance retrieved!`);
 
-      showBox(
+      if (isJsonOutput()) {
+        printJson({
+          wallet: activeWallet.name,
+          environment: activeWallet.environment,
+          address: activeWallet.address,
+          balance: decimalAmount,
+          atomicBalance: amount,
+          ...(activeWallet.hd && {
+            addresses: balances.map((b) => ({
+              address: b.address,
+              balance: b.decimalAmount,
+              atomicBalance: b.amount,
+            })),
+          }),
+        });
+        return;
+      }
+
+      // HD wallets list each derived address under the aggregated total
+      const addressLines =
+        balances.length > 1
+          ? balances.map(
+              (b) => `${icons.arrow} ${colors.muted(formatAddress(b.address))} ${formatAmount(b.decimalAmount)}`,
+            )
+          : [`${icons.arrow} ${colors.muted(formatAddress(activeWallet.address))}`];
+
+      showBox(
         `${icons.money} ${colors.highlight('Wallet Balance')}\n\n` +
           `${formatAmount(decimalAmount)}\n\n` +
           `${icons.wallet} ${colors.muted(activeWallet.name)}\n` +
-          `${icons.arrow} ${colors.muted(formatAddress(activeWallet.address))}`,
+          addressLines.join('\n'),
         'Balance',
         'success',
       );
     } catch (error) {
       spinner.fail(colors.error('Error fetching balance'));
+      if (isJsonOutput()) {
+        reportError('REQUEST_FAILED', `Error fetching balance: ${(error as Error).message}`);
+        return;
+      }
       console.error(error);
     }
   });
 
+// Reads every address of the wallet (HD wallets have several) from the local history cache, bringing it up to
+// date first unless offline. Entries are deduplicated by txid and sorted newest first.
+const loadWalletHistory = async (mneeInstance: Mnee, wallet: WalletInfo, offline: boolean = false) => {
+  const history: TxHistory[] = [];
+  let truncated = false;
+  let neverSynced = false;
+  let syncFailed = false;
+
+  for (const address of getWalletAddresses(wallet)) {
+    let cache = await readHistoryCache(wallet.environment, address);
+    if (!offline) {
+      try {
+        cache = await syncHistory(mneeInstance, wallet.environment, address);
+      } catch (error) {
+        // Fall back to what is cached; with nothing cached there is nothing to show
+        if (cache.syncedAt === null) throw error;
+        syncFailed = true;
+      }
+    }
+    history.push(...cache.transactions);
+    truncated = truncated || !cache.complete;
+    neverSynced = neverSynced || cache.syncedAt === null;
+  }
+
+  // Deduplicate transactions by txid (keep the one with the highest score)
+  const txMap = new Map<string, TxHistory>();
+  history.forEach((tx) => {
+    const existing = txMap.get(tx.txid);
+    if (!existing || tx.score > existing.score) {
+      txMap.set(tx.txid, tx);
+    }
+  });
+
+  return {
+    history: Array.from(txMap.values()).sort((a, b) => (b.score || 0) - (a.score || 0)),
+    truncated,
+    neverSynced,
+    syncFailed,
+  };
+};
+
+const toHistoryJson = (
+  mneeInstance: Mnee,
+  tx: TxHistory,
+  txTimes: Map<string, number>,
+  contactNames: Map<string, string>,
+) => ({
+  txid: tx.txid,
+  type: tx.type,
+  status: tx.status,
+  amount: mneeInstance.fromAtomicAmount(tx.amount || 0),
+  fee: mneeInstance.fromAtomicAmount(tx.fee || 0),
+  height: tx.height || null,
+  timestamp: txTimes.has(tx.txid) ? new Date(txTimes.get(tx.txid)! * 1000).toISOString() : null,
+  score: tx.score,
+  counterparties: (tx.counterparties || []).map((cp) => ({
+    address: cp.address,
+    contact: contactNames.get(cp.address) || null,
+    amount: mneeInstance.fromAtomicAmount(cp.amount || 0),
+  })),
+});
+
 program
   .command('history')
   .description('Get transaction history with filtering options')
@@ -348,60 +1161,61 @@ program
   .option('--address <address>', 'Filter by counterparty address (partial match)')
   .option('--min <amount>', 'Show transactions >= amount (e.g., --min 0.5)', parseFloat)
   .option('--max <amount>', 'Show transactions <= amount (e.g., --max 100)', parseFloat)
+  .option('--since <date>', 'Show transactions on or after a date (ISO date or relative, e.g. 7d, 12h)')
+  .option('--until <date>', 'Show transactions on or before a date (ISO date or relative, e.g. 1d)')
+  .option('-e, --export <file>', 'Write the filtered history to a CSV, JSON, OFX or QIF file')
+  .option('--offline', 'Read the locally cached history without contacting the network')
+  .option('--format <format>', 'Export format: csv, json, ofx or qif (defaults to the file extension)')
   .action(async (options) => {
-    const activeWallet = await getActiveWallet();
-
+    const activeWallet = await requireActiveWallet();
     if (!activeWallet) {
-      console.error(
-        `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
-          'mnee create',
-        )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
+      return;
+    }
+
+    const exportFormat = options.export ? resolveExportFormat(options.export, options.format) : null;
+    if (options.export && !exportFormat) {
+      reportError(
+        'INVALID_FILE',
+        `Unknown export format "${options.format || options.export}". Use one of: ${HISTORY_EXPORT_FORMATS.join(', ')}.`,
+      );
+      return;
+    }
+
+    const since = options.since !== undefined ? parseDateOption(options.since) : undefined;
+    const until = options.until !== undefined ? parseDateOption(options.until, true) : undefined;
+    if (since === null || until === null) {
+      reportError(
+        'INVALID_DATE',
+        `Invalid date "${since === null ? options.since : options.until}". Use an ISO date (2025-01-31) or a relative age (7d).`,
       );
       return;
     }
 
     const spinner = createSpinner(
-      `Fetching history for ${colors.primary(activeWallet.name)} (${activeWallet.environment})...`,
+      options.offline
+        ? `Reading cached history for ${colors.primary(activeWallet.name)} (${activeWallet.environment})...`
+        : `Syncing history for ${colors.primary(activeWallet.name)} (${activeWallet.environment})...`,
     );
     spinner.start();
 
     try {
       const mneeInstance = getMneeInstance(activeWallet.environment);
-      let nextScore = undefined;
-      let hasMore = true;
-      let history: TxHistory[] = [];
-      let attempts = 0;
-      const maxAttempts = 20; // Safety limit to prevent infinite loops
-
-      while (hasMore && attempts < maxAttempts) {
-        const { history: newHistory, nextScore: newNextScore } = await mneeInstance.recentTxHistory(
-          activeWallet.address,
-          nextScore,
-          100,
-          'desc',
-        );
-
-        if (newNextScore === nextScore && newNextScore !== undefined) break;
-
-        history.push(...newHistory);
-        nextScore = newNextScore;
-        hasMore = nextScore !== 0 && nextScore !== undefined;
-        attempts++;
-      }
-
-      if (attempts >= maxAttempts) {
-        console.log('Reached maximum number of attempts. Some history may be missing.');
-      }
+      const loaded = await loadWalletHistory(mneeInstance, activeWallet, options.offline);
+      const { truncated, neverSynced, syncFailed } = loaded;
+      let history = loaded.history;
 
-      // Deduplicate transactions by txid (keep the one with the highest score)
-      const txMap = new Map<string, TxHistory>();
-      history.forEach((tx) => {
-        const existing = txMap.get(tx.txid);
-        if (!existing || tx.score > existing.score) {
-          txMap.set(tx.txid, tx);
+      if (!isJsonOutput()) {
+        if (syncFailed) {
+          console.log(colors.warning('Could not reach the MNEE network. Showing cached history.'));
         }
-      });
-      history = Array.from(txMap.values());
+        if (options.offline && neverSynced) {
+          console.log(colors.warning('No cached history yet. Run mnee history without --offline to sync it.'));
+        } else if (truncated) {
+          console.log(
+            colors.warning('History is still syncing. Run the command again to fetch the remaining entries.'),
+          );
+        }
+      }
 
       // Apply filters based on options
       if (options.unconfirmed) {
@@ -440,13 +1254,99 @@ program
         });
       }
 
+      const showBlockTimeProgress = (done: number, total: number) => {
+        spinner.text = `Resolving block times (${done}/${total})...`;
+      };
+
+      // Filter by date range (block time, or first-seen time while unconfirmed). Transactions whose time is not
+      // known yet are kept and counted in the warning below rather than silently dropped.
+      const dateFiltered = since !== undefined || until !== undefined;
+      let txTimes: Map<string, number> | undefined;
+      if (dateFiltered) {
+        spinner.text = 'Resolving block times...';
+        const times = await getTxTimes(history, options.offline, showBlockTimeProgress);
+        txTimes = times;
+        history = history.filter((tx) => {
+          const time = times.get(tx.txid);
+          if (time === undefined) return true;
+          if (since !== undefined && time < since) return false;
+          if (until !== undefined && time > until) return false;
+          return true;
+        });
+      }
+
       // Apply limit if specified
       if (options.limit && options.limit > 0) {
         history = history.slice(0, options.limit);
       }
 
+      // Without a date filter only the rows left after --limit are resolved; a date filter has already resolved them
+      if (!txTimes) {
+        spinner.text = 'Resolving block times...';
+        txTimes = await getTxTimes(history, options.offline, showBlockTimeProgress);
+      }
+      const unresolvedTimes = history.filter((tx) => !txTimes.has(tx.txid)).length;
+      const unresolvedWarning =
+        unresolvedTimes > 0
+          ? `${unresolvedTimes} transaction time${unresolvedTimes !== 1 ? 's are' : ' is'} not known yet and will be fetched from WhatsOnChain on the next online run.` +
+            (dateFiltered
+              ? ` ${unresolvedTimes !== 1 ? 'They are' : 'It is'} included regardless of --since/--until.`
+              : '')
+          : null;
+      const contactNames = getContactNames(await loadContacts());
+
+      if (options.export && exportFormat) {
+        history.sort((a, b) => (b.score || 0) - (a.score || 0));
+
+        const rows: HistoryExportRow[] = history.map((tx) => {
+          const time = txTimes.get(tx.txid);
+          return {
+            txid: tx.txid,
+            timestamp: time ? new Date(time * 1000).toISOString() : null,
+            height: tx.height || null,
+            direction: tx.type,
+            amount: mneeInstance.fromAtomicAmount(tx.amount || 0),
+            fee: mneeInstance.fromAtomicAmount(tx.fee || 0),
+            counterparties: (tx.counterparties || []).map((cp) => ({
+              address: cp.address,
+              amount: mneeInstance.fromAtomicAmount(cp.amount || 0),
+            })),
+            status: tx.status,
+          };
+        });
+
+        await writeHistoryExport(options.export, exportFormat, rows, {
+          wallet: activeWallet.name,
+          address: activeWallet.address,
+          environment: activeWallet.environment,
+        });
+        spinner.succeed(
+          `Exported ${rows.length} transaction${rows.length !== 1 ? 's' : ''} to ${colors.primary(options.export)}`,
+        );
+
+        if (isJsonOutput()) {
+          printJson({ file: options.export, format: exportFormat, count: rows.length, truncated, unresolvedTimes });
+        } else if (unresolvedWarning) {
+          console.log(colors.warning(unresolvedWarning));
+        }
+        return;
+      }
+
       spinner.stop();
 
+      if (isJsonOutput()) {
+        history.sort((a, b) => (b.score || 0) - (a.score || 0));
+        printJson({
+          wallet: activeWallet.name,
+          environment: activeWallet.environment,
+          address: activeWallet.address,
+          truncated,
+          unresolvedTimes,
+          transactions: history.map((tx) => toHistoryJson(mneeInstance, tx, txTimes, contactNames)),
+        });
+        return;
+      }
+
       // Display formatted history
       if (history.length === 0) {
         showBox(`${icons.info} No transactions found`, 'Transaction History', 'info');
@@ -493,17 +1393,20 @@ program
           if (tx.counterparties && tx.counterparties.length > 0) {
             tx.counterparties.forEach((cp) => {
               const cpAmount = mneeInstance.fromAtomicAmount(cp.amount || 0);
+              const contactName = contactNames.get(cp.address);
               console.log(
-                `     ${colors.muted(type === 'send' ? 'to:' : 'from:')} ${colors.muted(cp.address)} ${formatAmount(
-                  cpAmount,
-                )}`,
+                `     ${colors.muted(type === 'send' ? 'to:' : 'from:')} ${
+                  contactName ? `${colors.primary(`@${contactName}`)} ` : ''
+                }${colors.muted(cp.address)} ${formatAmount(cpAmount)}`,
               );
             });
           }
 
-          // Show block height
-          if (heightDisplay) {
-            console.log(`     ${colors.muted(heightDisplay)}`);
+          // Show block height and time
+          const time = txTimes.get(tx.txid);
+          if (heightDisplay || time !== undefined) {
+            const timeDisplay = time !== undefined ? formatTimestamp(time) : '';
+            console.log(`     ${colors.muted([timeDisplay, heightDisplay].filter(Boolean).join(' · '))}`);
           }
 
           // Show transaction ID
@@ -518,374 +1421,3057 @@ program
 
         console.log(colors.muted('─'.repeat(60)));
         console.log(colors.muted(`  Total: ${history.length} transaction${history.length !== 1 ? 's' : ''}`));
+        if (unresolvedWarning) {
+          console.log(colors.warning(`  ${unresolvedWarning}`));
+        }
         console.log('');
       }
     } catch (error) {
       spinner.fail(colors.error('Error fetching history'));
+      if (isJsonOutput()) {
+        reportError('REQUEST_FAILED', `Error fetching history: ${(error as Error).message}`);
+        return;
+      }
       console.error(error);
     }
   });
 
-program
-  .command('transfer [amount] [address]')
-  .description('Transfer MNEE to another address')
-  .action(async (amount?: string, address?: string) => {
-    try {
-      const activeWallet = await getActiveWallet();
+// Transactions already seen per wallet, with the status they were last seen in
+type WatchState = { wallet: WalletInfo; mneeInstance: Mnee; seen: Map<string, string>; baseline: boolean };
+
+// Looks up wallets by name (case-insensitive), reporting the first unknown name
+const findWalletsByName = async (names: string[]): Promise<WalletInfo[] | null> => {
+  const allWallets = await getAllWallets();
+  const wallets: WalletInfo[] = [];
+  for (const name of names) {
+    const wallet = allWallets.find((w) => w.name.toLowerCase() === name.toLowerCase());
+    if (!wallet) {
+      reportError('WALLET_NOT_FOUND', `Wallet "${name}" not found.`);
+      return null;
+    }
+    if (!wallets.includes(wallet)) {
+      wallets.push(wallet);
+    }
+  }
+  return wallets;
+};
 
-      if (!activeWallet) {
-        console.error(
-          `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
-            'mnee create',
-          )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
-        );
-        return;
+// One SDK instance per environment is shared by the watched wallets
+const createWatchStates = (wallets: WalletInfo[]): WatchState[] => {
+  const instances = new Map<WalletEnvironment, Mnee>();
+  return wallets.map((wallet) => {
+    if (!instances.has(wallet.environment)) {
+      instances.set(wallet.environment, getMneeInstance(wallet.environment));
+    }
+    return { wallet, mneeInstance: instances.get(wallet.environment)!, seen: new Map(), baseline: true };
+  });
+};
+
+// Syncs every address of the wallet and returns the new transactions and confirmations since the last poll.
+// The first complete sync only records what is already there.
+const pollWatchedWallet = async (state: WatchState, contactNames: Map<string, string>): Promise<WatchEvent[]> => {
+  const { wallet, mneeInstance } = state;
+  const txMap = new Map<string, TxHistory>();
+  let complete = true;
+
+  for (const address of getWalletAddresses(wallet)) {
+    const cache = await syncHistory(mneeInstance, wallet.environment, address);
+    complete = complete && cache.complete;
+    cache.transactions.forEach((tx) => {
+      const existing = txMap.get(tx.txid);
+      if (!existing || tx.score > existing.score) {
+        txMap.set(tx.txid, tx);
       }
+    });
+  }
 
-      // Validate amount if provided as argument
-      if (amount) {
-        const validateAmount = (input: string) => {
-          const trimmed = input.trim();
-          if (!trimmed) return 'Amount is required';
+  const events: WatchEvent[] = [];
+  const detectedAt = new Date().toISOString();
+  Array.from(txMap.values())
+    .sort((a, b) => (a.score || 0) - (b.score || 0))
+    .forEach((tx) => {
+      const previous = state.seen.get(tx.txid);
+      state.seen.set(tx.txid, tx.status);
+
+      let kind: WatchEventKind | null = null;
+      if (previous === undefined && !state.baseline) {
+        kind = 'transaction';
+      } else if (previous === 'unconfirmed' && tx.status === 'confirmed') {
+        kind = 'confirmed';
+      }
+      if (!kind) return;
+
+      events.push({
+        event: kind,
+        wallet: wallet.name,
+        environment: wallet.environment,
+        txid: tx.txid,
+        type: tx.type,
+        status: tx.status,
+        amount: mneeInstance.fromAtomicAmount(tx.amount || 0),
+        fee: mneeInstance.fromAtomicAmount(tx.fee || 0),
+        height: tx.height || null,
+        counterparties: (tx.counterparties || []).map((cp) => ({
+          address: cp.address,
+          contact: contactNames.get(cp.address) || null,
+          amount: mneeInstance.fromAtomicAmount(cp.amount || 0),
+        })),
+        detectedAt,
+      });
+    });
 
-          const validNumberRegex = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
-          if (!validNumberRegex.test(trimmed)) {
-            return 'Invalid amount. Please enter a valid number (e.g., 10, 10.5, 1.5e-3)';
-          }
+  // A wallet whose history is still being fetched stays in baseline, so its older entries are not reported as new
+  if (complete) {
+    state.baseline = false;
+  }
+  return events;
+};
 
-          const num = parseFloat(trimmed);
-          if (isNaN(num)) return 'Invalid amount. Please enter a valid number';
-          if (num <= 0) return 'Amount must be greater than 0';
-          if (num < 0.00001) return 'Amount must be at least 0.00001 MNEE';
+const printWatchEvent = (event: WatchEvent): void => {
+  const time = colors.muted(new Date(event.detectedAt).toLocaleTimeString());
+  const wallet = colors.primary(`[${event.wallet}]`);
 
-          return true;
-        };
+  if (event.event === 'confirmed') {
+    const block = event.height ? colors.muted(` block ${event.height}`) : '';
+    console.log(
+      `${time} ${wallet} ${colors.success(`${icons.check} CONFIRMED`)} ${event.type} ${formatAmount(
+        event.amount,
+      )}${block}`,
+    );
+    console.log(`   ${colors.muted(`tx: ${event.txid}`)}`);
+    return;
+  }
 
-        const validation = validateAmount(amount);
-        if (validation !== true) {
-          console.error(`${icons.error} ${colors.error(validation)}`);
-          return;
+  const [first, ...others] = event.counterparties;
+  const contact = first?.contact ? ` ${colors.primary(`@${first.contact}`)}` : '';
+  const more = others.length > 0 ? colors.muted(` (+${others.length} more)`) : '';
+  const status = event.status === 'confirmed' ? colors.muted('confirmed') : colors.warning('unconfirmed');
+  console.log(
+    `${time} ${wallet} ${formatTransaction(event.type, String(event.amount), first?.address || 'unknown')}${contact}${more} ${status}`,
+  );
+  console.log(`   ${colors.muted(`tx: ${event.txid}`)}`);
+};
+
+program
+  .command('watch [walletNames...]')
+  .description('Watch wallets and print transactions as they arrive (defaults to the active wallet)')
+  .option('-i, --interval <seconds>', 'Seconds between polls (default: poll-interval setting, else 15)', parseFloat)
+  .option('--exec <command>', 'Run a shell command for each event (details in MNEE_* variables and as JSON on stdin)')
+  .option('--ndjson', 'Print each event as a line of JSON instead of formatted text')
+  .action(async (walletNames: string[], options) => {
+    let wallets: WalletInfo[] | null;
+    if (walletNames.length === 0) {
+      const activeWallet = await requireActiveWallet();
+      wallets = activeWallet ? [activeWallet] : null;
+    } else {
+      wallets = await findWalletsByName(walletNames);
+    }
+    if (!wallets) {
+      return;
+    }
+
+    const interval = options.interval ?? cliConfig.pollInterval ?? 15;
+    if (!(interval >= 1)) {
+      reportError('INVALID_INPUT', 'The poll interval must be at least 1 second.');
+      return;
+    }
+
+    // With --ndjson (or --json) stdout carries only events; status messages go to stderr
+    const ndjson = Boolean(options.ndjson) || isJsonOutput();
+    const log = (message: string) => (ndjson ? console.error(message) : console.log(message));
+
+    process.on('SIGINT', () => {
+      log(colors.muted('\nStopped watching.'));
+      process.exit(0);
+    });
+
+    log(
+      `${icons.time} Watching ${wallets.map((w) => colors.primary(w.name)).join(', ')} every ${interval}s. ${colors.muted(
+        'Press Ctrl+C to stop.',
+      )}`,
+    );
+
+    const states = createWatchStates(wallets);
+    const failing = new Set<string>();
+
+    while (true) {
+      const contactNames = getContactNames(await loadContacts());
+
+      for (const state of states) {
+        let events: WatchEvent[];
+        try {
+          events = await pollWatchedWallet(state, contactNames);
+          if (failing.delete(state.wallet.name)) {
+            log(colors.muted(`[${state.wallet.name}] Reconnected.`));
+          }
+        } catch (error) {
+          // Warn once per outage and keep polling
+          if (!failing.has(state.wallet.name)) {
+            failing.add(state.wallet.name);
+            log(colors.warning(`[${state.wallet.name}] Could not reach the MNEE network: ${(error as Error).message}`));
+          }
+          continue;
         }
-      }
 
-      // Validate address if provided as argument
-      if (address) {
-        const validation = validateBSVAddress(address);
-        if (validation !== true) {
-          console.error(`${icons.error} ${colors.error(validation)}`);
-          return;
+        for (const event of events) {
+          if (ndjson) {
+            console.log(JSON.stringify(event));
+          } else {
+            printWatchEvent(event);
+          }
+          if (options.exec) {
+            const code = await runWatchHook(options.exec, event, ndjson);
+            if (code !== 0) {
+              log(colors.warning(`Hook exited with ${code === null ? 'an error' : `code ${code}`} for ${event.txid}`));
+            }
+          }
         }
       }
 
-      // Prompt for amount and/or address if not provided
-      let transferAmount = amount;
-      let toAddress = address;
+      await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+  });
 
-      if (!amount || !address) {
-        const prompts = [];
+const webhook = program.command('webhook').description('Manage the webhooks that mnee daemon delivers events to');
 
-        if (!amount) {
-          prompts.push({
-            type: 'input',
-            name: 'amount',
-            message: 'Enter the amount to transfer:',
-            validate: (input: string) => {
-              const trimmed = input.trim();
-              if (!trimmed) return 'Amount is required';
+const parseWebhookEvents = (input?: string): WebhookEventType[] | string => {
+  if (!input) {
+    return WEBHOOK_EVENT_TYPES;
+  }
+  const events = input.split(',').map((e) => e.trim());
+  const unknown = events.find((e) => !WEBHOOK_EVENT_TYPES.includes(e as WebhookEventType));
+  if (unknown !== undefined) {
+    return `Unknown event "${unknown}". Use one of: ${WEBHOOK_EVENT_TYPES.join(', ')}.`;
+  }
+  return events as WebhookEventType[];
+};
 
-              const validNumberRegex = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
-              if (!validNumberRegex.test(trimmed)) {
-                return 'Invalid amount. Please enter a valid number (e.g., 10, 10.5, 1.5e-3)';
-              }
+const requireWebhook = async (id: string): Promise<Webhook | null> => {
+  const webhooks = await loadWebhooks();
+  const found = webhooks.find((w) => w.id === id);
+  if (!found) {
+    reportError('WEBHOOK_NOT_FOUND', `No webhook with id "${id}". Run mnee webhook list to see them.`);
+    return null;
+  }
+  return found;
+};
 
-              const num = parseFloat(trimmed);
-              if (isNaN(num)) return 'Invalid amount. Please enter a valid number';
-              if (num <= 0) return 'Amount must be greater than 0';
-              if (num < 0.00001) return 'Amount must be at least 0.00001 MNEE';
+webhook
+  .command('add <url>')
+  .description('Register a webhook URL')
+  .option('--events <events>', `Comma-separated events to send (default: all of ${WEBHOOK_EVENT_TYPES.join(', ')})`)
+  .action(async (url: string, options) => {
+    const urlValidation = validateWebhookUrl(url);
+    if (urlValidation !== true) {
+      reportError('INVALID_INPUT', urlValidation as string);
+      return;
+    }
+    const events = parseWebhookEvents(options.events);
+    if (typeof events === 'string') {
+      reportError('INVALID_INPUT', events);
+      return;
+    }
 
-              return true;
-            },
-          });
-        }
+    const created = createWebhook(url, events);
+    await saveWebhooks([...(await loadWebhooks()), created]);
 
-        if (!address) {
-          prompts.push({
-            type: 'input',
-            name: 'toAddress',
-            message: "Enter the recipient's address:",
-            validate: validateBSVAddress,
-          });
-        }
+    if (isJsonOutput()) {
+      printJson(created);
+      return;
+    }
+    showBox(
+      `${icons.success} Webhook ${colors.primary(created.id)} added\n\n` +
+        `${icons.dot} URL: ${created.url}\n` +
+        `${icons.dot} Events: ${created.events.join(', ')}\n` +
+        `${icons.key} Secret: ${colors.highlight(created.secret)}\n\n` +
+        colors.muted(
+          'Use the secret to verify the X-MNEE-Signature header. mnee webhook list --show-secrets shows it again.',
+        ),
+      'Webhook',
+      'success',
+    );
+  });
 
-        const answers = await safePrompt(prompts);
-        transferAmount = amount || answers.amount;
-        toAddress = address || answers.toAddress;
-      }
+webhook
+  .command('list')
+  .description('List registered webhooks')
+  .option('--show-secrets', 'Include the signing secrets')
+  .action(async (options) => {
+    const webhooks = await loadWebhooks();
+    const shown = webhooks.map((w) => (options.showSecrets ? w : { ...w, secret: undefined }));
 
-      const { password } = await safePrompt([
-        {
-          type: 'password',
-          name: 'password',
-          message: 'Enter your wallet password:',
-          mask: '*',
-        },
-      ]);
+    if (isJsonOutput()) {
+      printJson({ webhooks: shown });
+      return;
+    }
+    if (webhooks.length === 0) {
+      console.log(`\n${icons.info} No webhooks yet. Add one with ${colors.primary('mnee webhook add <url>')}`);
+      return;
+    }
 
-      const encryptedKey = await getPrivateKey(activeWallet.address);
-      if (!encryptedKey) {
-        console.error('❌ Private key not found for this wallet.');
-        return;
-      }
+    console.log('');
+    table(
+      shown.map((w) => ({
+        ID: colors.primary(w.id),
+        URL: w.url,
+        Events: colors.muted(w.events.join(', ')),
+        ...(options.showSecrets ? { Secret: w.secret } : {}),
+      })),
+      ['ID', 'URL', 'Events', ...(options.showSecrets ? ['Secret'] : [])],
+    );
+    console.log('');
+  });
 
-      const privateKeyHex = decryptPrivateKey(encryptedKey, password);
-      if (!privateKeyHex) {
-        console.error('❌ Incorrect password! Decryption failed.');
+webhook
+  .command('remove <id>')
+  .description('Remove a webhook')
+  .action(async (id: string) => {
+    const found = await requireWebhook(id);
+    if (!found) {
+      return;
+    }
+    await saveWebhooks((await loadWebhooks()).filter((w) => w.id !== id));
+
+    if (isJsonOutput()) {
+      printJson({ removed: { id: found.id, url: found.url } });
+      return;
+    }
+    animateSuccess(`Removed webhook ${found.id} (${found.url})`);
+  });
+
+webhook
+  .command('test <id>')
+  .description('Send a signed ping event to a webhook once')
+  .action(async (id: string) => {
+    const found = await requireWebhook(id);
+    if (!found) {
+      return;
+    }
+
+    const [delivery] = createDeliveries([found], 'ping', { message: 'Test delivery from mnee webhook test' });
+    await attemptDelivery(delivery, found);
+    // A test is a single attempt; the daemon does not retry it
+    if (delivery.status === 'pending') {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = null;
+    }
+    await saveDeliveries([...(await loadDeliveries()), delivery]);
+
+    if (isJsonOutput()) {
+      if (delivery.status !== 'delivered') {
+        reportError('REQUEST_FAILED', `Webhook ping failed: ${delivery.lastError}`, 1, { delivery });
         return;
       }
+      printJson(delivery);
+      return;
+    }
+    if (delivery.status === 'delivered') {
+      console.log(`${icons.success} Ping delivered to ${found.url} (HTTP ${delivery.responseStatus})`);
+    } else {
+      console.error(`${icons.error} Ping to ${found.url} failed: ${delivery.lastError}`);
+      process.exitCode = 1;
+    }
+  });
 
-      const privateKey = PrivateKey.fromString(privateKeyHex);
-      const request = [{ address: toAddress!, amount: parseFloat(transferAmount!) }] as SendMNEE[];
-
-      const spinner = createSpinner(`${icons.send} Initiating transfer from ${colors.primary(activeWallet.name)}...`);
-      spinner.start();
+webhook
+  .command('log')
+  .description('Show recent webhook deliveries')
+  .option('-l, --limit <number>', 'Number of deliveries to show (default: 20)', parseInt)
+  .option('--failed', 'Show only failed deliveries')
+  .action(async (options) => {
+    let deliveries = await loadDeliveries();
+    if (options.failed) {
+      deliveries = deliveries.filter((d) => d.status === 'failed');
+    }
+    deliveries = deliveries.slice(-(options.limit > 0 ? options.limit : 20)).reverse();
 
-      try {
-        const mneeInstance = getMneeInstance(activeWallet.environment);
-        // Explicitly set broadcast to true to ensure we get a ticketId
-        const response = await mneeInstance.transfer(request, privateKey.toWif());
+    if (isJsonOutput()) {
+      printJson({ deliveries });
+      return;
+    }
+    if (deliveries.length === 0) {
+      console.log(`\n${icons.info} No deliveries yet.`);
+      return;
+    }
 
-        // Check what type of response we got
-        if (response.ticketId) {
-          // We got a ticket ID, poll for status
-          spinner.stop();
+    const statusColor = { delivered: colors.success, pending: colors.warning, failed: colors.error };
+    console.log('');
+    table(
+      deliveries.map((d) => ({
+        Time: colors.muted(new Date(d.updatedAt).toLocaleString()),
+        Event: d.event,
+        URL: d.url,
+        Status: statusColor[d.status](d.status),
+        Attempts: String(d.attempts),
+        Result: colors.muted(
+          d.status === 'pending' && d.nextAttemptAt
+            ? `${d.lastError || 'queued'}, next try ${new Date(d.nextAttemptAt).toLocaleTimeString()}`
+            : d.lastError || `HTTP ${d.responseStatus}`,
+        ),
+      })),
+      ['Time', 'Event', 'URL', 'Status', 'Attempts', 'Result'],
+    );
+    console.log('');
+  });
 
-          // Show initial success message
+webhook
+  .command('listen')
+  .description('Run a local receiver that prints deliveries and checks their signatures (for testing)')
+  .option('-p, --port <port>', 'Port to listen on (default: 8787)', parseInt)
+  .option('--status <code>', 'HTTP status to answer with, e.g. 500 to exercise retries (default: 200)', parseInt)
+  .action(async (options) => {
+    const port = options.port || 8787;
+    const status = options.status || 200;
+
+    const server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', async () => {
+        const body = Buffer.concat(chunks).toString('utf-8');
+        const timestamp = String(req.headers['x-mnee-timestamp'] || '');
+        const signature = String(req.headers['x-mnee-signature'] || '');
+        // The secret is looked up among the registered webhooks, so the file is read on every request
+        const signer = (await loadWebhooks()).find((w) => verifyWebhookSignature(w.secret, timestamp, body, signature));
+
+        res.writeHead(status, { 'Content-Type': 'text/plain' });
+        res.end(status < 300 ? 'ok' : 'error');
+
+        if (isJsonOutput()) {
           console.log(
-            `${colors.success('✓')} ${colors.primary('Transfer initiated!')} ${colors.muted(
-              `Ticket: ${response.ticketId}`,
-            )}`,
+            JSON.stringify({
+              event: req.headers['x-mnee-event'] || null,
+              delivery: req.headers['x-mnee-delivery'] || null,
+              signatureValid: Boolean(signer),
+              webhookId: signer?.id || null,
+              body: body ? JSON.parse(body) : null,
+            }),
           );
+          return;
+        }
+        console.log(
+          `${colors.muted(new Date().toLocaleTimeString())} ${req.method} ${req.url} ${colors.primary(
+            String(req.headers['x-mnee-event'] || '-'),
+          )} ${
+            signer
+              ? colors.success(`${icons.check} signature valid (webhook ${signer.id})`)
+              : colors.error(`${icons.cross} signature invalid`)
+          } ${colors.muted(`→ ${status}`)}`,
+        );
+        console.log(colors.muted(`   ${body}`));
+      });
+    });
+
+    server.on('error', (error) => {
+      reportError('REQUEST_FAILED', `Could not listen on port ${port}: ${error.message}`);
+    });
+    server.listen(port, '127.0.0.1', () => {
+      const message = `${icons.info} Listening on http://localhost:${port}/ ${colors.muted('Press Ctrl+C to stop.')}`;
+      if (isJsonOutput()) {
+        console.error(message);
+      } else {
+        console.log(message);
+      }
+    });
+  });
 
-          // Start looping transaction animation
-          const txAnim = startTransactionAnimation();
+// Reports tickets submitted by this CLI that failed; finished and expired tickets stop being tracked
+const checkPendingTickets = async (
+  walletNames: Set<string>,
+  instanceFor: (environment: WalletEnvironment) => Mnee,
+  onFailed: (data: Record<string, unknown>) => void,
+): Promise<void> => {
+  const tickets = (await loadPendingTickets()).filter((t) => walletNames.has(t.wallet));
+  if (tickets.length === 0) {
+    return;
+  }
 
-          // Poll for transaction status
-          const finalStatus = await pollForTxStatus(mneeInstance, response.ticketId);
+  const finished = new Set<string>();
+  for (const ticket of tickets) {
+    if (Date.now() - Date.parse(ticket.submittedAt) > TICKET_TRACKING_MS) {
+      finished.add(ticket.ticketId);
+      continue;
+    }
+    try {
+      const status = await getTxStatus(instanceFor(ticket.environment), ticket.ticketId);
+      if (status.status === 'BROADCASTING') {
+        continue;
+      }
+      finished.add(ticket.ticketId);
+      if (status.status === 'FAILED') {
+        onFailed({ ...ticket, txid: status.tx_id || null, errors: status.errors });
+      }
+    } catch (error) {
+      // Checked again on the next poll
+    }
+  }
 
-          if (finalStatus.status === 'SUCCESS' || finalStatus.status === 'MINED') {
-            // Stop animation with success
-            txAnim.stop(true);
+  if (finished.size > 0) {
+    // Re-read so tickets added by a transfer running alongside are kept
+    await savePendingTickets((await loadPendingTickets()).filter((t) => !finished.has(t.ticketId)));
+  }
+};
 
-            setTimeout(() => {
-              showBox(
-                `${icons.check} ${colors.highlight('Transaction Details')}\n\n` +
-                  `${icons.dot} Amount: ${formatAmount(transferAmount!)}\n` +
-                  `${icons.dot} To: ${colors.muted(formatAddress(toAddress!))}\n` +
-                  `${icons.dot} TX ID: ${colors.muted(finalStatus.tx_id)}\n\n` +
-                  `View on WhatsOnChain:\n` +
-                  formatLink(`https://whatsonchain.com/tx/${finalStatus.tx_id}?tab=m8eqcrbs`),
-                'Transfer Success',
-                'success',
-              );
-            }, 1200);
-          } else if (finalStatus.status === 'FAILED') {
-            // Stop animation without success
-            txAnim.stop(false);
-            showBox(
-              `${icons.error} ${colors.error('Transaction failed')}\n\n` + `${finalStatus.errors || 'Unknown error'}`,
-              'Transfer Failed',
-              'error',
-            );
+program
+  .command('daemon [walletNames...]')
+  .description('Keep polling wallets and deliver events to the registered webhooks (defaults to all wallets)')
+  .option('-i, --interval <seconds>', 'Seconds between polls (default: poll-interval setting, else 30)', parseFloat)
+  .option('--low-balance <amount>', 'Send balance.low when a wallet balance drops below this amount', parseFloat)
+  .action(async (walletNames: string[], options) => {
+    if ((await loadWebhooks()).length === 0) {
+      reportError('NO_WEBHOOKS', 'No webhooks registered. Run mnee webhook add <url> first.');
+      return;
+    }
+
+    const wallets = walletNames.length > 0 ? await findWalletsByName(walletNames) : await getAllWallets();
+    if (!wallets) {
+      return;
+    }
+    if (wallets.length === 0) {
+      reportError('NO_WALLETS', 'No wallets found. Run mnee create to create a wallet.');
+      return;
+    }
+
+    const interval = options.interval ?? cliConfig.pollInterval ?? 30;
+    if (!(interval >= 1)) {
+      reportError('INVALID_INPUT', 'The poll interval must be at least 1 second.');
+      return;
+    }
+    const threshold: number | undefined = options.lowBalance;
+    if (threshold !== undefined && !(threshold > 0)) {
+      reportError('INVALID_AMOUNT', 'The low balance threshold must be a positive amount.');
+      return;
+    }
+
+    const log = (message: string) => {
+      const line = `${colors.muted(new Date().toLocaleTimeString())} ${message}`;
+      if (isJsonOutput()) {
+        console.error(line);
+      } else {
+        console.log(line);
+      }
+    };
+
+    process.on('SIGINT', () => {
+      log(colors.muted('Daemon stopped.'));
+      process.exit(0);
+    });
+
+    const states = createWatchStates(wallets);
+    const instanceFor = (environment: WalletEnvironment) =>
+      states.find((s) => s.wallet.environment === environment)?.mneeInstance || getMneeInstance(environment);
+    const watchedNames = new Set(wallets.map((w) => w.name));
+    const belowThreshold = new Set<string>();
+    const failing = new Set<string>();
+    let webhooks = await loadWebhooks();
+    let deliveries: Delivery[] = await loadDeliveries();
+    let nextPollAt = 0;
+
+    const enqueue = (event: WebhookEventType, data: unknown) => {
+      const created = createDeliveries(webhooks, event, data);
+      if (created.length > 0) {
+        deliveries.push(...created);
+        log(`${colors.primary(event)} queued for ${created.length} webhook${created.length !== 1 ? 's' : ''}`);
+      }
+    };
+
+    log(
+      `${icons.rocket} Daemon watching ${wallets.map((w) => colors.primary(w.name)).join(', ')} every ${interval}s, ` +
+        `delivering to ${webhooks.length} webhook${webhooks.length !== 1 ? 's' : ''}. ${colors.muted('Press Ctrl+C to stop.')}`,
+    );
+
+    while (true) {
+      let changed = false;
+
+      if (Date.now() >= nextPollAt) {
+        nextPollAt = Date.now() + interval * 1000;
+        // Picks up webhooks added or removed while the daemon runs
+        webhooks = await loadWebhooks();
+        const before = deliveries.length;
+        const contactNames = getContactNames(await loadContacts());
+
+        for (const state of states) {
+          const { wallet } = state;
+          try {
+            const events = await pollWatchedWallet(state, contactNames);
+            events.forEach(({ event, ...data }) => {
+              if (event === 'confirmed') {
+                enqueue('transfer.confirmed', data);
+              } else if (data.type === 'receive') {
+                enqueue('transfer.received', data);
+              }
+            });
+
+            if (threshold !== undefined) {
+              const { decimalAmount } = await getWalletBalance(state.mneeInstance, wallet);
+              // Sent once when the balance drops below the threshold, and again only after it has recovered
+              if (decimalAmount < threshold && !belowThreshold.has(wallet.name)) {
+                belowThreshold.add(wallet.name);
+                enqueue('balance.low', {
+                  wallet: wallet.name,
+                  environment: wallet.environment,
+                  address: wallet.address,
+                  balance: decimalAmount,
+                  threshold,
+                });
+              } else if (decimalAmount >= threshold) {
+                belowThreshold.delete(wallet.name);
+              }
+            }
+
+            if (failing.delete(wallet.name)) {
+              log(colors.muted(`[${wallet.name}] Reconnected.`));
+            }
+          } catch (error) {
+            if (!failing.has(wallet.name)) {
+              failing.add(wallet.name);
+              log(colors.warning(`[${wallet.name}] Could not reach the MNEE network: ${(error as Error).message}`));
+            }
           }
-        } else if (response.rawtx) {
-          // We got a raw transaction instead (shouldn't happen with broadcast: true)
-          spinner.succeed('Transaction created.');
-          showBox(
-            `${icons.warning} ${colors.warning('Raw transaction returned')}\n\n` +
-              `This might indicate the transaction needs to be submitted manually.\n\n` +
-              `${colors.muted('Raw TX:')} ${response.rawtx.substring(0, 50)}...`,
-            'Warning',
-            'warning',
+        }
+
+        await checkPendingTickets(watchedNames, instanceFor, (data) => enqueue('ticket.failed', data));
+        changed = deliveries.length !== before;
+      }
+
+      for (const delivery of deliveries.filter((d) => isDeliveryDue(d))) {
+        await attemptDelivery(
+          delivery,
+          webhooks.find((w) => w.id === delivery.webhookId),
+        );
+        changed = true;
+        if (delivery.status === 'delivered') {
+          log(
+            `${colors.success(icons.check)} ${delivery.event} delivered to ${delivery.url} (HTTP ${delivery.responseStatus})`,
+          );
+        } else if (delivery.status === 'failed') {
+          log(
+            colors.error(
+              `${icons.cross} ${delivery.event} to ${delivery.url} failed after ${delivery.attempts} attempts: ${delivery.lastError}`,
+            ),
           );
         } else {
-          // No valid response
-          spinner.fail('Transfer failed. No ticket ID or transaction returned.');
+          log(
+            colors.warning(
+              `${delivery.event} to ${delivery.url} failed (${delivery.lastError}), retrying at ${new Date(delivery.nextAttemptAt!).toLocaleTimeString()}`,
+            ),
+          );
         }
-      } catch (error: any) {
-        console.log(error);
-        spinner.fail(
-          `Transfer failed. ${
-            error && error.message
-              ? error.message.includes('status: 423')
-                ? 'The sending or receiving address may be frozen or blacklisted. Please visit https://mnee.io and contact support for questions or concerns.'
-                : 'Please try again.'
-              : 'Please try again.'
-          }`,
-        );
-        process.exit(1);
       }
+
+      if (changed) {
+        await saveDeliveries(deliveries);
+        // Keep memory in step with the trimmed log
+        deliveries = await loadDeliveries();
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    }
+  });
+
+type TransferCommandOptions = NonInteractiveOptions & {
+  file?: string;
+  report?: string;
+  dryRun?: boolean;
+  saveTx?: string;
+};
+
+// The MNEE fee is picked from the tier whose [min, max] range contains the total atomic amount sent
+const getFeeTier = (config: MNEEConfig, atomicAmount: number) => {
+  return config.fees.find((tier) => atomicAmount >= tier.min && atomicAmount <= tier.max);
+};
+
+const getFeeForAmount = (config: MNEEConfig, atomicAmount: number): number | undefined => {
+  return getFeeTier(config, atomicAmount)?.fee;
+};
+
+// Balance summed across every wallet address, with the per-address breakdown
+const getWalletBalance = async (mneeInstance: Mnee, wallet: WalletInfo) => {
+  const balances = await mneeInstance.balances(getWalletAddresses(wallet));
+  const amount = balances.reduce((sum, b) => sum + b.amount, 0);
+  return { amount, decimalAmount: mneeInstance.fromAtomicAmount(amount), balances };
+};
+
+interface TransferEstimate {
+  amount: number;
+  fee: number;
+  total: number; // amount plus fee, what leaves the wallet
+  tier: { min: number; max: number };
+  balance: number;
+  remaining: number;
+  covered: boolean;
+}
+
+// Works out what a transfer would cost from the current fee tiers, without building a transaction
+const estimateTransfer = async (
+  mneeInstance: Mnee,
+  wallet: WalletInfo,
+  request: SendMNEE[],
+): Promise<TransferEstimate> => {
+  const amountAtomic = request.reduce((sum, r) => sum + mneeInstance.toAtomicAmount(r.amount), 0);
+  const [config, balance] = await Promise.all([mneeInstance.config(), getWalletBalance(mneeInstance, wallet)]);
+  const tier = getFeeTier(config, amountAtomic);
+  if (!tier) {
+    throw new Error('No fee tier covers this amount.');
+  }
+  const totalAtomic = amountAtomic + tier.fee;
+
+  return {
+    amount: mneeInstance.fromAtomicAmount(amountAtomic),
+    fee: mneeInstance.fromAtomicAmount(tier.fee),
+    total: mneeInstance.fromAtomicAmount(totalAtomic),
+    tier: { min: mneeInstance.fromAtomicAmount(tier.min), max: mneeInstance.fromAtomicAmount(tier.max) },
+    balance: balance.decimalAmount,
+    remaining: mneeInstance.fromAtomicAmount(balance.amount - totalAtomic),
+    covered: balance.amount >= totalAtomic,
+  };
+};
+
+const formatTransferEstimate = (estimate: TransferEstimate): string =>
+  `${icons.dot} Amount: ${formatAmount(estimate.amount)}\n` +
+  `${icons.dot} Fee: ${formatAmount(estimate.fee)}\n` +
+  `${icons.dot} Total debited: ${formatAmount(estimate.total)}\n` +
+  `${icons.dot} Balance: ${formatAmount(estimate.balance)}` +
+  (estimate.covered
+    ? ` ${icons.arrow} ${formatAmount(estimate.remaining)}`
+    : ` ${colors.error(`(short by ${Math.abs(estimate.remaining)} MNEE)`)}`);
+
+// Shows the fee and total before a transfer is confirmed. Returns false when the balance cannot cover it or the
+// user declines; an estimate that cannot be fetched is only a warning, since the transfer itself may still work.
+const confirmTransfer = async (
+  mneeInstance: Mnee,
+  wallet: WalletInfo,
+  request: SendMNEE[],
+  options: TransferCommandOptions,
+  message: string,
+): Promise<boolean> => {
+  const spinner = createSpinner('Estimating fee...');
+  spinner.start();
+
+  try {
+    const estimate = await estimateTransfer(mneeInstance, wallet, request);
+    spinner.stop();
+    if (!estimate.covered) {
+      reportError(
+        'INSUFFICIENT_BALANCE',
+        `${wallet.name} holds ${estimate.balance} MNEE but the transfer needs ${estimate.total} MNEE including the fee.`,
+        EXIT_CODES.FAILURE,
+        { estimate },
+      );
+      return false;
+    }
+    if (!isJsonOutput()) {
+      console.log(formatTransferEstimate(estimate) + '\n');
+    }
+  } catch (error: any) {
+    spinner.warn(`Could not estimate the fee: ${error?.message || 'Unknown error'}`);
+  }
+
+  const confirm = await confirmAction(options, message);
+  if (!confirm) {
+    reportCancelled();
+  }
+  return confirm;
+};
+
+// Single-key wallets go through transfer(); HD wallets gather inputs across their derived addresses and sign
+// each with its own key via transferMulti(), sending change back to the first address
+const sendFromWallet = async (
+  mneeInstance: Mnee,
+  wallet: WalletInfo,
+  request: SendMNEE[],
+  keys: PrivateKey[],
+  transferOptions?: TransferOptions,
+): Promise<TransferResponse> => {
+  if (keys.length === 1) {
+    return mneeInstance.transfer(request, keys[0].toWif(), transferOptions);
+  }
+
+  const totalAtomic = request.reduce((sum, r) => sum + mneeInstance.toAtomicAmount(r.amount), 0);
+  const [config, utxoLists] = await Promise.all([
+    mneeInstance.config(),
+    Promise.all(keys.map((key) => mneeInstance.getAllUtxos(key.toAddress()))),
+  ]);
+  const neededAtomic = totalAtomic + (getFeeForAmount(config, totalAtomic) || 0);
+
+  const candidates = utxoLists
+    .flatMap((utxos, i) => utxos.map((utxo) => ({ utxo, wif: keys[i].toWif() })))
+    .sort((a, b) => b.utxo.data.bsv21.amt - a.utxo.data.bsv21.amt);
+
+  const inputs: { txid: string; vout: number; wif: string }[] = [];
+  let coveredAtomic = 0;
+  for (const { utxo, wif } of candidates) {
+    if (coveredAtomic >= neededAtomic) break;
+    inputs.push({ txid: utxo.txid, vout: utxo.vout, wif });
+    coveredAtomic += utxo.data.bsv21.amt;
+  }
+
+  if (coveredAtomic < neededAtomic) {
+    throw new Error('Insufficient MNEE balance across the wallet addresses.');
+  }
+
+  return mneeInstance.transferMulti({ inputs, recipients: request, changeAddress: wallet.address }, transferOptions);
+};
+
+// Builds and signs the transfer without broadcasting it, then shows what it would do
+const runTransferPreview = async (
+  wallet: WalletInfo,
+  request: SendMNEE[],
+  keys: PrivateKey[],
+  options: TransferCommandOptions,
+): Promise<void> => {
+  const mneeInstance = getMneeInstance(wallet.environment);
+  const spinner = createSpinner(`Building transaction from ${colors.primary(wallet.name)} (dry run)...`);
+  spinner.start();
+
+  try {
+    const [response, config, balance] = await Promise.all([
+      sendFromWallet(mneeInstance, wallet, request, keys, { broadcast: false }),
+      mneeInstance.config(),
+      getWalletBalance(mneeInstance, wallet),
+    ]);
+
+    if (!response.rawtx) {
+      throw new Error('No raw transaction returned.');
+    }
+
+    const parsed = await mneeInstance.parseTxFromRawTx(response.rawtx);
+    const sumAtomic = (items: { amount: number }[]) => items.reduce((sum, item) => sum + item.amount, 0);
+
+    const totalAtomic = request.reduce((sum, r) => sum + mneeInstance.toAtomicAmount(r.amount), 0);
+    const feeOutputs = parsed.outputs.filter((o) => o.address === config.feeAddress);
+    const feeAtomic = feeOutputs.length > 0 ? sumAtomic(feeOutputs) : getFeeForAmount(config, totalAtomic) || 0;
+    const changeAtomic = sumAtomic(parsed.outputs.filter((o) => o.address === wallet.address));
+    const inputAtomic = sumAtomic(parsed.inputs);
+    const projectedAtomic = balance.amount - totalAtomic - feeAtomic;
+
+    let txid: string | null = null;
+    try {
+      txid = Transaction.fromHex(response.rawtx).id('hex');
     } catch (error) {
-      console.log(`\n${icons.error} ${colors.error('Operation interrupted.')}`);
-      process.exit(1);
+      // Not a plain hex transaction; the preview still works without the id
+    }
+
+    if (options.saveTx) {
+      await fs.writeFile(options.saveTx, response.rawtx + '\n');
+    }
+
+    spinner.succeed('Transaction built and signed (not broadcast).');
+
+    const preview = {
+      dryRun: true,
+      txid,
+      from: wallet.address,
+      recipients: request,
+      total: mneeInstance.fromAtomicAmount(totalAtomic),
+      fee: mneeInstance.fromAtomicAmount(feeAtomic),
+      change: mneeInstance.fromAtomicAmount(changeAtomic),
+      inputs: { count: parsed.inputs.length, total: mneeInstance.fromAtomicAmount(inputAtomic) },
+      balance: {
+        current: balance.decimalAmount,
+        projected: mneeInstance.fromAtomicAmount(projectedAtomic),
+      },
+      rawtx: response.rawtx,
+      savedTo: options.saveTx || null,
+    };
+
+    if (isJsonOutput()) {
+      printJson(preview);
+      return;
+    }
+
+    showBox(
+      `${icons.info} ${colors.highlight('Transfer Preview')}\n\n` +
+        request.map((r) => `${icons.send} ${formatAmount(r.amount)} ${colors.muted(`to ${r.address}`)}`).join('\n') +
+        `\n\n${icons.dot} Total sent: ${formatAmount(preview.total)}\n` +
+        `${icons.dot} Fee: ${formatAmount(preview.fee)}\n` +
+        `${icons.dot} Inputs: ${preview.inputs.count} ${colors.muted(`(${preview.inputs.total} MNEE)`)}\n` +
+        `${icons.dot} Change: ${formatAmount(preview.change)}\n` +
+        `${icons.dot} Balance: ${formatAmount(preview.balance.current)} ${icons.arrow} ${formatAmount(
+          preview.balance.projected,
+        )}\n` +
+        (txid ? `${icons.dot} TX ID: ${colors.muted(txid)}\n` : '') +
+        (options.saveTx ? `${icons.dot} Raw TX saved to: ${colors.muted(options.saveTx)}\n` : '') +
+        `\n${colors.warning('Dry run: nothing was broadcast.')}`,
+      'Dry Run',
+      'info',
+    );
+  } catch (error: any) {
+    spinner.fail('Could not build the transaction.');
+    reportError('TRANSFER_FAILED', `Dry run failed: ${error?.message || 'Unknown error'}`);
+  }
+};
+
+// Reads a payout file, resolving "@contact" rows, and reports every invalid row. Returns null when nothing should
+// be sent.
+const loadPayoutRows = async (file: string): Promise<PayoutRow[] | null> => {
+  let rows: PayoutRow[];
+  try {
+    rows = await readPayoutFile(file);
+  } catch (error: any) {
+    reportError('INVALID_FILE', `Could not read payout file ${file}: ${error.message}`);
+    return null;
+  }
+
+  if (rows.length === 0) {
+    reportError('INVALID_FILE', `No recipients found in ${file}`);
+    return null;
+  }
+
+  const problems: { row: number; message: string }[] = [];
+
+  // Rows may name a saved contact ("@alice") instead of an address
+  const contacts = await loadContacts();
+  rows.forEach((row) => {
+    if (isContactReference(row.address)) {
+      const contact = findContact(contacts, row.address);
+      if (contact) {
+        row.label = row.label || `@${contact.name}`;
+        row.address = contact.address;
+      }
+    }
+  });
+
+  rows.forEach((row) => {
+    const addressValidation = isContactReference(row.address)
+      ? `Unknown contact ${row.address}`
+      : validateBSVAddress(row.address);
+    if (addressValidation !== true) {
+      problems.push({ row: row.row, message: addressValidation as string });
+    }
+    const amountValidation = validateAmount(row.amount);
+    if (amountValidation !== true) {
+      problems.push({ row: row.row, message: amountValidation as string });
     }
   });
 
+  if (problems.length > 0) {
+    if (!isJsonOutput()) {
+      problems.forEach((p) => console.error(`${icons.error} ${colors.error(`Row ${p.row}:`)} ${p.message}`));
+    }
+    reportError('INVALID_FILE', `${problems.length} invalid row(s) in ${file}. Nothing was sent.`, EXIT_CODES.FAILURE, {
+      problems,
+    });
+    return null;
+  }
+
+  return rows;
+};
+
+// Sends every row of a payout file (CSV or JSON) in a single MNEE transaction and writes a per-row report
+const runBatchTransfer = async (wallet: WalletInfo, options: TransferCommandOptions): Promise<void> => {
+  const file = options.file!;
+  const reportPath = options.report || defaultReportPath(file);
+
+  const rows = await loadPayoutRows(file);
+  if (!rows) {
+    return;
+  }
+
+  const mneeInstance = getMneeInstance(wallet.environment);
+  const request = rows.map((row) => ({ address: row.address.trim(), amount: parseFloat(row.amount) })) as SendMNEE[];
+  const total = mneeInstance.fromAtomicAmount(
+    request.reduce((sum, r) => sum + mneeInstance.toAtomicAmount(r.amount), 0),
+  );
+
+  if (!isJsonOutput()) {
+    console.log('');
+    table(
+      rows.map((row) => ({
+        '#': String(row.row),
+        Recipient: colors.muted(row.address),
+        Amount: formatAmount(row.amount),
+        Label: row.label || '',
+      })),
+      ['#', 'Recipient', 'Amount', 'Label'],
+    );
+    console.log('');
+    console.log(`${icons.dot} Recipients: ${colors.primary(String(rows.length))}`);
+    console.log(`${icons.dot} From: ${colors.primary(wallet.name)} ${colors.muted(`(${wallet.environment})`)}\n`);
+  }
+
+  if (options.dryRun) {
+    const keys = await unlockWalletKeys(wallet, options);
+    if (keys) {
+      await runTransferPreview(wallet, request, keys, options);
+    }
+    return;
+  }
+
+  const confirm = await confirmTransfer(
+    mneeInstance,
+    wallet,
+    request,
+    options,
+    `Send ${total} MNEE to ${rows.length} recipients in one transaction?`,
+  );
+  if (!confirm) {
+    return;
+  }
+
+  const keys = await unlockWalletKeys(wallet, options);
+  if (!keys) {
+    return;
+  }
+
+  const results: PayoutResult[] = rows.map((row) => ({
+    ...row,
+    status: 'PENDING',
+    ticketId: null,
+    txid: null,
+    error: null,
+  }));
+  const settle = (fields: Partial<PayoutResult>) => results.forEach((r) => Object.assign(r, fields));
+
+  const spinner = createSpinner(
+    `${icons.send} Sending batch of ${rows.length} transfers from ${colors.primary(wallet.name)}...`,
+  );
+  spinner.start();
+
+  try {
+    const response = await sendFromWallet(mneeInstance, wallet, request, keys);
+    if (!response.ticketId) {
+      throw new Error('No ticket ID returned.');
+    }
+    settle({ ticketId: response.ticketId, status: 'BROADCASTING' });
+    await trackTicket(response.ticketId, wallet.name, wallet.environment);
+
+    spinner.text = `Waiting for ticket ${response.ticketId}...`;
+    const finalStatus = await pollForTxStatus(mneeInstance, response.ticketId);
+    settle({ status: finalStatus.status, txid: finalStatus.tx_id || null, error: finalStatus.errors || null });
+
+    if (finalStatus.status === 'FAILED') {
+      spinner.fail('Batch transfer failed.');
+    } else {
+      spinner.succeed(`Batch transfer ${finalStatus.status === 'MINED' ? 'mined' : 'broadcast'}.`);
+    }
+  } catch (error: any) {
+    const message = error?.message?.includes('status: 423')
+      ? 'The sending or receiving address may be frozen or blacklisted.'
+      : error?.message || 'Unknown error';
+    // Once a ticket exists the transaction may still go through, so the rows must not read as safe to resend
+    if (results[0].ticketId) {
+      spinner.warn('Batch transfer was broadcast, but its final status is unknown.');
+      settle({ error: message });
+    } else {
+      spinner.fail('Batch transfer failed.');
+      settle({ status: 'FAILED', error: message });
+    }
+  }
+
+  await writePayoutReport(reportPath, results);
+
+  const failed = results[0].status === 'FAILED';
+  const unconfirmed = results[0].status === 'BROADCASTING';
+  const summary = {
+    ticketId: results[0].ticketId,
+    status: results[0].status,
+    txid: results[0].txid,
+    total,
+    report: reportPath,
+    recipients: results,
+  };
+
+  if (failed) {
+    if (!isJsonOutput()) {
+      console.log(`${icons.dot} Report: ${colors.muted(reportPath)}`);
+    }
+    reportError('TRANSFER_FAILED', results[0].error || 'Batch transfer failed', EXIT_CODES.FAILURE, summary);
+    return;
+  }
+
+  if (unconfirmed) {
+    if (!isJsonOutput()) {
+      console.log(`${icons.dot} Report: ${colors.muted(reportPath)}`);
+    }
+    reportUnconfirmed(results[0].ticketId!, results[0].error || 'Unknown error', summary);
+    return;
+  }
+
+  if (isJsonOutput()) {
+    printJson(summary);
+    return;
+  }
+
+  showBox(
+    `${icons.check} ${colors.highlight('Batch Transfer Details')}\n\n` +
+      `${icons.dot} Recipients: ${rows.length}\n` +
+      `${icons.dot} Total: ${formatAmount(total)}\n` +
+      `${icons.dot} TX ID: ${colors.muted(summary.txid || 'pending')}\n` +
+      `${icons.dot} Report: ${colors.muted(reportPath)}\n\n` +
+      `View on WhatsOnChain:\n` +
+      formatLink(`https://whatsonchain.com/tx/${summary.txid}?tab=m8eqcrbs`),
+    'Batch Transfer Success',
+    'success',
+  );
+};
+
 program
-  .command('status <ticketId>')
-  .description('Check the status of a transaction using its ticket ID')
-  .action(async (ticketId) => {
+  .command('transfer [amount] [address]')
+  .description('Transfer MNEE to another address')
+  .option('--password-stdin', 'Read the wallet password from stdin')
+  .option('--password-fd <fd>', 'Read the wallet password from a file descriptor')
+  .option('--password-env <name>', 'Read the wallet password from an environment variable')
+  .option('-y, --yes', 'Skip all confirmation prompts')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .option('-f, --file <path>', 'Pay every recipient in a CSV or JSON payout file in one transaction')
+  .option('--report <path>', 'Where to write the per-recipient result report (with --file)')
+  .option('--dry-run', 'Build and sign the transaction but do not broadcast it')
+  .option('--save-tx <path>', 'Write the unbroadcast raw transaction hex to a file (with --dry-run)')
+  .action(async (amount: string | undefined, address: string | undefined, options: TransferCommandOptions) => {
     try {
-      const activeWallet = await getActiveWallet();
+      const activeWallet = await requireActiveWallet();
+      if (!activeWallet || !requireSigningWallet(activeWallet, 'send transfers')) {
+        return;
+      }
+
+      if (options.file) {
+        if (amount || address) {
+          reportError('INVALID_FILE', 'Pass either an amount and address or --file, not both.');
+          return;
+        }
+        await runBatchTransfer(activeWallet, options);
+        return;
+      }
+
+      // Validate amount if provided as argument
+      if (amount) {
+        const validation = validateAmount(amount);
+        if (validation !== true) {
+          reportError('INVALID_AMOUNT', validation as string);
+          return;
+        }
+      }
+
+      // Resolve a contact and validate the address if provided as argument
+      if (address) {
+        const resolved = await resolveRecipient(address);
+        if (!resolved) {
+          return;
+        }
+        const validation = validateBSVAddress(resolved);
+        if (validation !== true) {
+          reportError('INVALID_ADDRESS', validation as string);
+          return;
+        }
+        address = resolved;
+      }
+
+      // Prompt for amount and/or address if not provided
+      let transferAmount = amount;
+      let toAddress = address;
+
+      if ((!amount || !address) && isNonInteractive(options)) {
+        failMissingInput('Amount and recipient address are required in non-interactive mode.');
+      }
+
+      if (!amount || !address) {
+        const prompts = [];
+
+        if (!amount) {
+          prompts.push({
+            type: 'input',
+            name: 'amount',
+            message: 'Enter the amount to transfer:',
+            validate: validateAmount,
+          });
+        }
+
+        if (!address) {
+          prompts.push({
+            type: 'input',
+            name: 'toAddress',
+            message: "Enter the recipient's address (or @contact):",
+            validate: (input: string) => (isContactReference(input) ? true : validateBSVAddress(input)),
+          });
+        }
+
+        const answers = await safePrompt(prompts);
+        transferAmount = amount || answers.amount;
+        toAddress = address || (await resolveRecipient(answers.toAddress)) || undefined;
+        if (!toAddress) {
+          return;
+        }
+      }
+
+      const request = [{ address: toAddress!, amount: parseFloat(transferAmount!) }] as SendMNEE[];
+
+      if (!options.dryRun) {
+        const confirm = await confirmTransfer(
+          getMneeInstance(activeWallet.environment),
+          activeWallet,
+          request,
+          options,
+          `Send ${transferAmount} MNEE to ${toAddress} from ${activeWallet.name}?`,
+        );
+        if (!confirm) {
+          return;
+        }
+      }
+
+      const keys = await unlockWalletKeys(activeWallet, options);
+      if (!keys) {
+        return;
+      }
+
+      if (options.dryRun) {
+        await runTransferPreview(activeWallet, request, keys, options);
+        return;
+      }
+
+      const spinner = createSpinner(`${icons.send} Initiating transfer from ${colors.primary(activeWallet.name)}...`);
+      spinner.start();
+
+      try {
+        const mneeInstance = getMneeInstance(activeWallet.environment);
+        // Explicitly set broadcast to true to ensure we get a ticketId
+        const response = await sendFromWallet(mneeInstance, activeWallet, request, keys);
+
+        // Check what type of response we got
+        if (response.ticketId) {
+          // We got a ticket ID, poll for status
+          spinner.stop();
+          await trackTicket(response.ticketId, activeWallet.name, activeWallet.environment);
+
+          // Show initial success message
+          if (!isJsonOutput()) {
+            console.log(
+              `${colors.success('✓')} ${colors.primary('Transfer initiated!')} ${colors.muted(
+                `Ticket: ${response.ticketId}`,
+              )}`,
+            );
+          }
+
+          // Start looping transaction animation
+          const txAnim = startTransactionAnimation();
+
+          // Poll for transaction status
+          let finalStatus: TransferStatus;
+          try {
+            finalStatus = await pollForTxStatus(mneeInstance, response.ticketId);
+          } catch (error: any) {
+            txAnim.stop(false);
+            reportUnconfirmed(response.ticketId, error?.message || 'Unknown error', {
+              amount: parseFloat(transferAmount!),
+              to: toAddress!,
+            });
+            return;
+          }
+
+          if (isJsonOutput()) {
+            const result = {
+              ticketId: response.ticketId,
+              status: finalStatus.status,
+              txid: finalStatus.tx_id || null,
+              amount: parseFloat(transferAmount!),
+              to: toAddress!,
+            };
+            if (finalStatus.status === 'FAILED') {
+              reportError('TRANSFER_FAILED', finalStatus.errors || 'Transaction failed', EXIT_CODES.FAILURE, result);
+            } else {
+              printJson(result);
+            }
+            return;
+          }
+
+          if (finalStatus.status === 'SUCCESS' || finalStatus.status === 'MINED') {
+            // Stop animation with success
+            txAnim.stop(true);
+
+            setTimeout(() => {
+              showBox(
+                `${icons.check} ${colors.highlight('Transaction Details')}\n\n` +
+                  `${icons.dot} Amount: ${formatAmount(transferAmount!)}\n` +
+                  `${icons.dot} To: ${colors.muted(formatAddress(toAddress!))}\n` +
+                  `${icons.dot} TX ID: ${colors.muted(finalStatus.tx_id)}\n\n` +
+                  `View on WhatsOnChain:\n` +
+                  formatLink(`https://whatsonchain.com/tx/${finalStatus.tx_id}?tab=m8eqcrbs`),
+                'Transfer Success',
+                'success',
+              );
+            }, 1200);
+          } else if (finalStatus.status === 'FAILED') {
+            // Stop animation without success
+            txAnim.stop(false);
+            showBox(
+              `${icons.error} ${colors.error('Transaction failed')}\n\n` + `${finalStatus.errors || 'Unknown error'}`,
+              'Transfer Failed',
+              'error',
+            );
+            process.exitCode = EXIT_CODES.FAILURE;
+          }
+        } else if (response.rawtx) {
+          // We got a raw transaction instead (shouldn't happen with broadcast: true)
+          spinner.succeed('Transaction created.');
+          if (isJsonOutput()) {
+            printJson({ ticketId: null, status: null, txid: null, rawtx: response.rawtx });
+            return;
+          }
+          showBox(
+            `${icons.warning} ${colors.warning('Raw transaction returned')}\n\n` +
+              `This might indicate the transaction needs to be submitted manually.\n\n` +
+              `${colors.muted('Raw TX:')} ${response.rawtx.substring(0, 50)}...`,
+            'Warning',
+            'warning',
+          );
+        } else {
+          // No valid response
+          spinner.fail('Transfer failed. No ticket ID or transaction returned.');
+          if (isJsonOutput()) {
+            reportError('TRANSFER_FAILED', 'Transfer failed. No ticket ID or transaction returned.');
+          }
+          process.exitCode = EXIT_CODES.FAILURE;
+        }
+      } catch (error: any) {
+        if (isJsonOutput()) {
+          const frozen = Boolean(error?.message?.includes('status: 423'));
+          reportError(
+            frozen ? 'ADDRESS_FROZEN' : 'TRANSFER_FAILED',
+            frozen
+              ? 'The sending or receiving address may be frozen or blacklisted.'
+              : `Transfer failed. ${error?.message || 'Please try again.'}`,
+          );
+          process.exit(EXIT_CODES.FAILURE);
+        }
+        spinner.fail(
+          `Transfer failed. ${
+            error && error.message
+              ? error.message.includes('status: 423')
+                ? 'The sending or receiving address may be frozen or blacklisted. Please visit https://mnee.io and contact support for questions or concerns.'
+                : `${error.message} Please try again.`
+              : 'Please try again.'
+          }`,
+        );
+        process.exit(1);
+      }
+    } catch (error) {
+      if (isJsonOutput()) {
+        reportError('TRANSFER_FAILED', 'Operation interrupted.');
+        process.exit(EXIT_CODES.FAILURE);
+      }
+      console.log(`\n${icons.error} ${colors.error('Operation interrupted.')}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('fee [amount] [address]')
+  .description('Estimate the fee and total debited for a transfer from the active wallet')
+  .option('-f, --file <path>', 'Estimate a multi-recipient transfer from a CSV or JSON payout file')
+  .action(async (amount: string | undefined, address: string | undefined, options: { file?: string }) => {
+    const activeWallet = await requireActiveWallet();
+    if (!activeWallet) {
+      return;
+    }
+
+    let request: SendMNEE[];
+    if (options.file) {
+      if (amount || address) {
+        reportError('INVALID_FILE', 'Pass either an amount and address or --file, not both.');
+        return;
+      }
+      const rows = await loadPayoutRows(options.file);
+      if (!rows) {
+        return;
+      }
+      request = rows.map((row) => ({ address: row.address.trim(), amount: parseFloat(row.amount) }));
+    } else {
+      if (!amount) {
+        failMissingInput('An amount or --file is required.');
+      }
+      const validation = validateAmount(amount!);
+      if (validation !== true) {
+        reportError('INVALID_AMOUNT', validation as string);
+        return;
+      }
+      // The recipient does not change the fee, so it is only checked when given
+      let toAddress = activeWallet.address;
+      if (address) {
+        const resolved = await resolveRecipient(address);
+        if (!resolved) {
+          return;
+        }
+        const addressValidation = validateBSVAddress(resolved);
+        if (addressValidation !== true) {
+          reportError('INVALID_ADDRESS', addressValidation as string);
+          return;
+        }
+        toAddress = resolved;
+      }
+      request = [{ address: toAddress, amount: parseFloat(amount!) }];
+    }
+
+    const spinner = createSpinner('Fetching fee tiers...');
+    spinner.start();
+
+    try {
+      const estimate = await estimateTransfer(getMneeInstance(activeWallet.environment), activeWallet, request);
+      spinner.stop();
+
+      if (isJsonOutput()) {
+        printJson({
+          wallet: activeWallet.name,
+          environment: activeWallet.environment,
+          recipients: options.file || address ? request : [],
+          ...estimate,
+        });
+        return;
+      }
+
+      showBox(
+        `${icons.info} ${colors.highlight('Fee Estimate')}\n\n` +
+          (request.length > 1 ? `${icons.dot} Recipients: ${request.length}\n` : '') +
+          formatTransferEstimate(estimate) +
+          `\n${icons.dot} Fee tier: ${colors.muted(`${estimate.tier.min} – ${estimate.tier.max} MNEE`)}\n\n` +
+          (estimate.covered
+            ? colors.success(`${activeWallet.name} can cover this transfer.`)
+            : colors.error(`${activeWallet.name} cannot cover this transfer.`)),
+        'Fee',
+        estimate.covered ? 'info' : 'warning',
+      );
+    } catch (error: any) {
+      spinner.fail('Could not estimate the fee.');
+      reportError('REQUEST_FAILED', `Fee estimate failed: ${error?.message || 'Unknown error'}`);
+    }
+  });
+
+program
+  .command('status <ticketId>')
+  .description('Check the status of a transaction using its ticket ID')
+  .action(async (ticketId) => {
+    try {
+      const activeWallet = await requireActiveWallet();
+      if (!activeWallet) {
+        return;
+      }
+
+      const spinner = createSpinner(`Checking status for ticket: ${colors.primary(ticketId)}...`);
+      spinner.start();
+
+      try {
+        const mneeInstance = getMneeInstance(activeWallet.environment);
+        const status = await getTxStatus(mneeInstance, ticketId);
+
+        spinner.stop();
+
+        if (isJsonOutput()) {
+          printJson({
+            ticketId: status.id,
+            status: status.status,
+            txid: status.tx_id || null,
+            createdAt: status.createdAt,
+            updatedAt: status.updatedAt,
+            errors: status.errors || null,
+          });
+          return;
+        }
+
+        const statusColor =
+          {
+            BROADCASTING: colors.warning,
+            SUCCESS: colors.success,
+            MINED: colors.success,
+            FAILED: colors.error,
+          }[status.status] || colors.info;
+
+        const statusIcon =
+          {
+            BROADCASTING: icons.time,
+            SUCCESS: icons.success,
+            MINED: '⛏️',
+            FAILED: icons.error,
+          }[status.status] || icons.info;
+
+        let content =
+          `${statusIcon} ${colors.highlight('Transaction Status')}\n\n` +
+          `${icons.dot} Ticket ID: ${colors.muted(status.id)}\n` +
+          `${icons.dot} Status: ${statusColor(status.status)}\n`;
+
+        if (status.tx_id) {
+          content += `${icons.dot} TX ID: ${colors.muted(status.tx_id)}\n\n`;
+          content += `View on WhatsOnChain:\n${formatLink(
+            `https://whatsonchain.com/tx/${status.tx_id}?tab=m8eqcrbs`,
+          )}\n`;
+        }
+
+        content += `\n${icons.dot} Created: ${colors.muted(new Date(status.createdAt).toLocaleString())}\n`;
+        content += `${icons.dot} Updated: ${colors.muted(new Date(status.updatedAt).toLocaleString())}`;
+
+        if (status.errors) {
+          content += `\n\n${icons.warning} ${colors.error('Errors:')} ${status.errors}`;
+        }
+
+        const boxType = status.status === 'FAILED' ? 'error' : status.status === 'BROADCASTING' ? 'warning' : 'success';
+        showBox(content, 'Transaction Status', boxType);
+      } catch (error: any) {
+        spinner.fail(`Error checking status: ${error.message || 'Unknown error'}`);
+        if (isJsonOutput()) {
+          reportError('REQUEST_FAILED', `Error checking status: ${error.message || 'Unknown error'}`);
+        }
+      }
+    } catch (error) {
+      console.error(`\n${icons.error} ${colors.error('Error:')}`, error);
+    }
+  });
+
+program
+  .command('unlock [walletNames...]')
+  .description('Keep wallet keys unlocked in a local agent so signing commands stop asking for the password')
+  .option('--for <duration>', 'How long the keys stay unlocked, e.g. 15m or 2h (default: 15m)')
+  .option('--password-stdin', 'Read the wallet password from stdin')
+  .option('--password-fd <fd>', 'Read the wallet password from a file descriptor')
+  .option('--password-env <name>', 'Read the wallet password from an environment variable')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (walletNames: string[], options: NonInteractiveOptions & { for?: string }) => {
+    const ttlMs = parseDuration(options.for || '15m');
+    if (ttlMs === null || ttlMs > MAX_UNLOCK_MS) {
+      reportError('INVALID_INPUT', `Invalid --for "${options.for}". Use e.g. 90s, 15m or 1h, up to 1d.`);
+      return;
+    }
+
+    let wallets: WalletInfo[];
+    if (walletNames.length > 0) {
+      const found = await findWalletsByName(walletNames);
+      if (!found) {
+        return;
+      }
+      wallets = found;
+    } else {
+      const activeWallet = await requireActiveWallet();
+      if (!activeWallet) {
+        return;
+      }
+      wallets = [activeWallet];
+    }
+    if (!wallets.every((wallet) => requireSigningWallet(wallet, 'be unlocked'))) {
+      return;
+    }
+
+    // A password given through --password-* applies to every wallet; otherwise each wallet is prompted for
+    const provided = await readPasswordOption(options);
+    const unlocked: { wallet: WalletInfo; keys: PrivateKey[] }[] = [];
+    for (const wallet of wallets) {
+      const password = provided ?? (await getWalletPassword(options, `Enter the password for ${wallet.name}:`));
+      const keys = await decryptWalletKeys(wallet, password);
+      if (!Array.isArray(keys)) {
+        reportError(keys.code, `${wallet.name}: ${keys.message}`);
+        return;
+      }
+      unlocked.push({ wallet, keys });
+    }
+
+    if (!(await requestAgent({ op: 'status' })) && !(await spawnAgent(process.argv[1]))) {
+      reportError('REQUEST_FAILED', 'Could not start the key agent.');
+      return;
+    }
+
+    let expiresAt: Record<string, string> = {};
+    for (const { wallet, keys } of unlocked) {
+      const response = await requestAgent({
+        op: 'add',
+        address: wallet.address,
+        keys: keys.map((key) => key.toWif()),
+        ttlMs,
+      });
+      if (!response?.ok) {
+        reportError('REQUEST_FAILED', `Could not hand the keys of ${wallet.name} to the key agent.`);
+        return;
+      }
+      expiresAt = Object.fromEntries(response.wallets!.map((w) => [w.address, w.expiresAt]));
+    }
+
+    const result = unlocked.map(({ wallet }) => ({
+      name: wallet.name,
+      address: wallet.address,
+      expiresAt: expiresAt[wallet.address],
+    }));
+
+    if (isJsonOutput()) {
+      printJson({ wallets: result });
+      return;
+    }
+
+    showBox(
+      `${icons.unlock} ${colors.highlight('Wallets Unlocked')}\n\n` +
+        result
+          .map(
+            (w) =>
+              `${icons.dot} ${colors.primary(w.name)} ${colors.muted(
+                `until ${new Date(w.expiresAt).toLocaleTimeString()}`,
+              )}`,
+          )
+          .join('\n') +
+        `\n\nSigning commands use these keys without asking for the password.\n` +
+        `Run ${colors.primary('mnee lock')} to forget them now.`,
+      'Unlocked',
+      'success',
+    );
+  });
+
+program
+  .command('lock')
+  .description('Wipe every key held by the agent started with mnee unlock')
+  .action(async () => {
+    const response = await requestAgent({ op: 'lock' });
+    const count = response?.wallets?.length || 0;
+
+    if (isJsonOutput()) {
+      printJson({ locked: count });
+      return;
+    }
+
+    if (!response) {
+      console.log(`${icons.lock} ${colors.muted('No wallets are unlocked.')}`);
+      return;
+    }
+    console.log(
+      `${icons.lock} ${colors.success('Locked.')} ${colors.muted(
+        `${count} wallet${count === 1 ? '' : 's'} forgotten by the key agent.`,
+      )}`,
+    );
+  });
+
+// Started in the background by `mnee unlock`
+program
+  .command('agent', { hidden: true })
+  .description('Run the key agent in the foreground')
+  .action(async () => {
+    try {
+      await runAgent();
+    } catch (error: any) {
+      reportError('REQUEST_FAILED', error?.message || 'Could not start the key agent.');
+    }
+  });
+
+type UnlockedWallet = { name: string; keys: PrivateKey[]; expiresAt: number; timer: NodeJS.Timeout };
+
+program
+  .command('serve')
+  .description('Start a localhost HTTP API for balance, history, transfer, status and list')
+  .option('-p, --port <port>', 'Port to listen on (default: 8788)', parseInt)
+  .option('--token-env <name>', 'Read the bearer token from this environment variable (default: generate one)')
+  .option('--max-amount <amount>', 'Largest total a single transfer request may send (transfers are off without it)')
+  .option(
+    '--unlock-timeout <duration>',
+    'Longest time a wallet stays unlocked, e.g. 15m or 1h, up to 1d (default: 15m)',
+  )
+  .action(async (options) => {
+    const port = options.port || 8788;
+
+    let token: string;
+    if (options.tokenEnv) {
+      const fromEnv = readEnv(options.tokenEnv);
+      if (!fromEnv) {
+        failMissingInput(`Environment variable ${options.tokenEnv} is not set.`);
+      }
+      token = fromEnv!;
+    } else {
+      token = generateApiToken();
+    }
+
+    if (options.maxAmount !== undefined) {
+      const amountValidation = validateAmount(options.maxAmount);
+      if (amountValidation !== true) {
+        reportError('INVALID_AMOUNT', `Invalid --max-amount: ${amountValidation}`);
+        return;
+      }
+    }
+    const maxAmount: number | undefined = options.maxAmount !== undefined ? parseFloat(options.maxAmount) : undefined;
+
+    const maxUnlockMs = parseDuration(options.unlockTimeout || '15m');
+    if (maxUnlockMs === null || maxUnlockMs > MAX_UNLOCK_MS) {
+      reportError(
+        'INVALID_INPUT',
+        `Invalid --unlock-timeout "${options.unlockTimeout}". Use e.g. 90s, 15m or 1h, up to 1d.`,
+      );
+      return;
+    }
+
+    const instances = new Map<WalletEnvironment, Mnee>();
+    const instanceFor = (environment: WalletEnvironment): Mnee => {
+      if (!instances.has(environment)) {
+        instances.set(environment, getMneeInstance(environment));
+      }
+      return instances.get(environment)!;
+    };
+
+    // Decrypted keys live only in this process, keyed by wallet address, and are dropped when the timer fires
+    const unlocked = new Map<string, UnlockedWallet>();
+    const lockWallet = (address: string) => {
+      const entry = unlocked.get(address);
+      if (entry) {
+        clearTimeout(entry.timer);
+        unlocked.delete(address);
+      }
+      return entry;
+    };
+
+    const findWallet = async (name?: string | null): Promise<WalletInfo> => {
+      if (!name) {
+        const activeWallet = await getActiveWallet();
+        if (!activeWallet) {
+          throw new ApiError(404, 'NO_ACTIVE_WALLET', 'No active wallet. Pass a wallet name.');
+        }
+        return activeWallet;
+      }
+      const wallet = (await getAllWallets()).find((w) => w.name.toLowerCase() === name.toLowerCase());
+      if (!wallet) {
+        throw new ApiError(404, 'WALLET_NOT_FOUND', `Wallet "${name}" not found.`);
+      }
+      return wallet;
+    };
+
+    const routes: ApiRoutes = {
+      'GET /wallets': async () => {
+        const activeWallet = await getActiveWallet();
+        const wallets = await getAllWallets();
+        return {
+          activeWallet: activeWallet?.name || null,
+          wallets: wallets.map((w) => {
+            const entry = unlocked.get(w.address);
+            return {
+              name: w.name,
+              address: w.address,
+              environment: w.environment,
+              hd: Boolean(w.hd),
+              watchOnly: Boolean(w.watchOnly),
+              addresses: getWalletAddresses(w),
+              unlockedUntil: entry ? new Date(entry.expiresAt).toISOString() : null,
+            };
+          }),
+        };
+      },
+
+      'GET /balance': async ({ query }) => {
+        const wallet = await findWallet(query.get('wallet'));
+        const mneeInstance = instanceFor(wallet.environment);
+        const { amount, decimalAmount, balances } = await getWalletBalance(mneeInstance, wallet);
+        return {
+          wallet: wallet.name,
+          environment: wallet.environment,
+          address: wallet.address,
+          balance: decimalAmount,
+          atomicBalance: amount,
+          ...(wallet.hd && {
+            addresses: balances.map((b) => ({ address: b.address, balance: b.decimalAmount, atomicBalance: b.amount })),
+          }),
+        };
+      },
+
+      'GET /history': async ({ query }) => {
+        const wallet = await findWallet(query.get('wallet'));
+        const mneeInstance = instanceFor(wallet.environment);
+        const { history: all, truncated } = await loadWalletHistory(mneeInstance, wallet);
+
+        const type = query.get('type');
+        const status = query.get('status');
+        const limit = Number(query.get('limit')) || 0;
+        let history = all.filter((tx) => (!type || tx.type === type) && (!status || tx.status === status));
+        if (limit > 0) {
+          history = history.slice(0, limit);
+        }
+
+        const txTimes = await getTxTimes(history);
+        const contactNames = getContactNames(await loadContacts());
+        return {
+          wallet: wallet.name,
+          environment: wallet.environment,
+          address: wallet.address,
+          truncated,
+          transactions: history.map((tx) => toHistoryJson(mneeInstance, tx, txTimes, contactNames)),
+        };
+      },
+
+      'GET /status/:ticketId': async ({ params, query }) => {
+        const environment = query.get('environment') || (await findWallet(query.get('wallet'))).environment;
+        if (environment !== 'sandbox' && environment !== 'production') {
+          throw new ApiError(400, 'INVALID_INPUT', 'environment must be "sandbox" or "production".');
+        }
+        const status = await getTxStatus(instanceFor(environment), params.ticketId);
+        return {
+          ticketId: status.id,
+          status: status.status,
+          txid: status.tx_id || null,
+          createdAt: status.createdAt,
+          updatedAt: status.updatedAt,
+          errors: status.errors || null,
+        };
+      },
+
+      'POST /unlock': async ({ body }) => {
+        const wallet = await findWallet(body.wallet);
+        if (wallet.watchOnly) {
+          throw new ApiError(400, 'WATCH_ONLY', `Wallet "${wallet.name}" is watch-only and has no key to unlock.`);
+        }
+        if (typeof body.password !== 'string' || !body.password) {
+          throw new ApiError(400, 'MISSING_INPUT', 'password is required.');
+        }
+
+        let duration = maxUnlockMs;
+        if (body.timeout !== undefined) {
+          const requested = parseDuration(String(body.timeout));
+          if (requested === null) {
+            throw new ApiError(400, 'INVALID_INPUT', `Invalid timeout "${body.timeout}". Use e.g. 90s or 15m.`);
+          }
+          duration = Math.min(requested, maxUnlockMs);
+        }
+
+        const keys = await decryptWalletKeys(wallet, body.password);
+        if (!Array.isArray(keys)) {
+          throw new ApiError(keys.code === 'INVALID_PASSWORD' ? 403 : 404, keys.code, keys.message);
+        }
+
+        lockWallet(wallet.address);
+        const expiresAt = Date.now() + duration;
+        const timer = setTimeout(() => lockWallet(wallet.address), duration);
+        timer.unref();
+        unlocked.set(wallet.address, { name: wallet.name, keys, expiresAt, timer });
+        return { wallet: wallet.name, unlockedUntil: new Date(expiresAt).toISOString() };
+      },
+
+      'POST /lock': async ({ body }) => {
+        const addresses = body.wallet ? [(await findWallet(body.wallet)).address] : Array.from(unlocked.keys());
+        const locked = addresses.map(lockWallet).filter((entry): entry is UnlockedWallet => Boolean(entry));
+        return { locked: locked.map((entry) => entry.name) };
+      },
+
+      'POST /transfer': async ({ body }) => {
+        if (maxAmount === undefined) {
+          throw new ApiError(
+            403,
+            'SPEND_LIMIT_EXCEEDED',
+            'Transfers are disabled. Restart mnee serve with --max-amount.',
+          );
+        }
+
+        const wallet = await findWallet(body.wallet);
+        const entry = unlocked.get(wallet.address);
+        if (!entry) {
+          throw new ApiError(423, 'WALLET_LOCKED', `Wallet "${wallet.name}" is locked. POST /unlock first.`);
+        }
+
+        const rows: { address?: unknown; amount?: unknown }[] = Array.isArray(body.recipients)
+          ? body.recipients
+          : [{ address: body.address, amount: body.amount }];
+        if (rows.length === 0) {
+          throw new ApiError(400, 'MISSING_INPUT', 'At least one recipient is required.');
+        }
+
+        const savedContacts = await loadContacts();
+        const request: SendMNEE[] = rows.map((row, i) => {
+          const label = rows.length > 1 ? `Recipient ${i + 1}: ` : '';
+          let address = typeof row.address === 'string' ? row.address.trim() : '';
+          if (isContactReference(address)) {
+            const contact = findContact(savedContacts, address);
+            if (!contact) {
+              throw new ApiError(404, 'CONTACT_NOT_FOUND', `${label}No contact named "${address}".`);
+            }
+            address = contact.address;
+          }
+          const addressValidation = validateBSVAddress(address);
+          if (addressValidation !== true) {
+            throw new ApiError(400, 'INVALID_ADDRESS', `${label}${addressValidation}`);
+          }
+          const amountValidation = validateAmount(String(row.amount ?? ''));
+          if (amountValidation !== true) {
+            throw new ApiError(400, 'INVALID_AMOUNT', `${label}${amountValidation}`);
+          }
+          return { address, amount: parseFloat(String(row.amount)) };
+        });
+
+        const mneeInstance = instanceFor(wallet.environment);
+        const total = request.reduce((sum, r) => sum + r.amount, 0);
+        if (mneeInstance.toAtomicAmount(total) > mneeInstance.toAtomicAmount(maxAmount)) {
+          throw new ApiError(
+            403,
+            'SPEND_LIMIT_EXCEEDED',
+            `Transfer total ${total} MNEE exceeds the per-request limit of ${maxAmount} MNEE.`,
+          );
+        }
+
+        let response: TransferResponse;
+        try {
+          response = await sendFromWallet(mneeInstance, wallet, request, entry.keys);
+        } catch (error: any) {
+          const frozen = Boolean(error?.message?.includes('status: 423'));
+          throw new ApiError(
+            frozen ? 403 : 502,
+            frozen ? 'ADDRESS_FROZEN' : 'TRANSFER_FAILED',
+            frozen ? 'Your address is currently frozen and cannot send tokens.' : error?.message || 'Transfer failed',
+          );
+        }
+        if (!response.ticketId) {
+          throw new ApiError(502, 'TRANSFER_FAILED', 'Transfer failed. No ticket ID returned.');
+        }
+        await trackTicket(response.ticketId, wallet.name, wallet.environment);
+
+        return {
+          wallet: wallet.name,
+          ticketId: response.ticketId,
+          status: 'BROADCASTING',
+          total,
+          recipients: request,
+        };
+      },
+    };
+
+    const log = (message: string) => {
+      const line = `${colors.muted(new Date().toLocaleTimeString())} ${message}`;
+      if (isJsonOutput()) {
+        console.error(line);
+      } else {
+        console.log(line);
+      }
+    };
+
+    let server: http.Server;
+    try {
+      // Request bodies (which carry passwords) are never logged
+      server = await startApiServer({
+        host: '127.0.0.1',
+        port,
+        token,
+        routes,
+        onRequest: (method, path, status) =>
+          log(`${method} ${path} ${status < 400 ? colors.success(String(status)) : colors.error(String(status))}`),
+      });
+    } catch (error) {
+      reportError('REQUEST_FAILED', `Could not listen on port ${port}: ${(error as Error).message}`);
+      return;
+    }
+
+    // Service managers stop the server with SIGTERM; either way the keys are wiped before exiting
+    const shutdown = () => {
+      Array.from(unlocked.keys()).forEach(lockWallet);
+      server.close();
+      log(colors.muted('Server stopped. All wallets locked.'));
+      process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    const url = `http://127.0.0.1:${port}`;
+    if (isJsonOutput()) {
+      printJson({ url, token: options.tokenEnv ? null : token, maxAmount: maxAmount ?? null, maxUnlockMs });
+      return;
+    }
+    showBox(
+      `${icons.rocket} Listening on ${colors.primary(url)}\n\n` +
+        (options.tokenEnv
+          ? `${icons.key} Bearer token: from ${colors.primary(options.tokenEnv)}\n`
+          : `${icons.key} Bearer token: ${colors.highlight(token)}\n`) +
+        `${icons.dot} Spend limit per request: ${
+          maxAmount !== undefined ? formatAmount(maxAmount) : colors.warning('transfers disabled')
+        }\n` +
+        `${icons.dot} Unlock timeout: up to ${options.unlockTimeout || '15m'}\n\n` +
+        colors.muted('Press Ctrl+C to stop.'),
+      'MNEE API',
+      'info',
+    );
+  });
+
+const contacts = program.command('contacts').description('Manage saved recipient addresses (use them as @name)');
+
+contacts
+  .command('add <name> <address>')
+  .description('Save an address under a name')
+  .action(async (name: string, address: string) => {
+    const nameValidation = validateContactName(name);
+    if (!nameValidation.isValid) {
+      reportError('INVALID_INPUT', nameValidation.error!);
+      return;
+    }
+    const addressValidation = validateBSVAddress(address);
+    if (addressValidation !== true) {
+      reportError('INVALID_ADDRESS', addressValidation as string);
+      return;
+    }
+
+    const saved = await loadContacts();
+    const contactName = name.trim().replace(/^@/, '');
+    if (findContact(saved, contactName)) {
+      reportError('INVALID_INPUT', `A contact named "${contactName}" already exists (names are case-insensitive).`);
+      return;
+    }
+
+    const existing = saved.find((c) => c.address === address.trim());
+    if (existing && !isJsonOutput()) {
+      console.log(`${icons.warning} ${colors.warning(`This address is already saved as @${existing.name}.`)}`);
+    }
+
+    const contact: Contact = { name: contactName, address: address.trim(), addedAt: new Date().toISOString() };
+    await saveContacts([...saved, contact]);
+
+    if (isJsonOutput()) {
+      printJson(contact);
+      return;
+    }
+    animateSuccess(`Saved @${contact.name} → ${contact.address}`);
+  });
+
+contacts
+  .command('list')
+  .description('List saved contacts')
+  .action(async () => {
+    const saved = await loadContacts();
+
+    if (isJsonOutput()) {
+      printJson({ contacts: saved });
+      return;
+    }
+
+    if (saved.length === 0) {
+      console.log(
+        `\n${icons.info} No contacts yet. Add one with ${colors.primary('mnee contacts add <name> <address>')}`,
+      );
+      return;
+    }
+
+    console.log('');
+    table(
+      saved.map((c) => ({ Name: colors.primary(`@${c.name}`), Address: colors.muted(c.address) })),
+      ['Name', 'Address'],
+    );
+    console.log('');
+  });
+
+contacts
+  .command('remove <name>')
+  .description('Remove a saved contact')
+  .action(async (name: string) => {
+    const saved = await loadContacts();
+    const contact = findContact(saved, name);
+    if (!contact) {
+      reportError('CONTACT_NOT_FOUND', `No contact named "${name}".`);
+      return;
+    }
+
+    await saveContacts(saved.filter((c) => c !== contact));
+
+    if (isJsonOutput()) {
+      printJson({ removed: contact });
+      return;
+    }
+    animateSuccess(`Removed @${contact.name}`);
+  });
+
+contacts
+  .command('rename <oldName> <newName>')
+  .description('Rename a saved contact')
+  .action(async (oldName: string, newName: string) => {
+    const nameValidation = validateContactName(newName);
+    if (!nameValidation.isValid) {
+      reportError('INVALID_INPUT', nameValidation.error!);
+      return;
+    }
+
+    const saved = await loadContacts();
+    const contact = findContact(saved, oldName);
+    if (!contact) {
+      reportError('CONTACT_NOT_FOUND', `No contact named "${oldName}".`);
+      return;
+    }
+
+    const contactName = newName.trim().replace(/^@/, '');
+    const clash = findContact(saved, contactName);
+    if (clash && clash !== contact) {
+      reportError('INVALID_INPUT', `A contact named "${contactName}" already exists (names are case-insensitive).`);
+      return;
+    }
+
+    const previousName = contact.name;
+    contact.name = contactName;
+    await saveContacts(saved);
+
+    if (isJsonOutput()) {
+      printJson(contact);
+      return;
+    }
+    animateSuccess(`Renamed @${previousName} to @${contact.name}`);
+  });
+
+const tx = program.command('tx').description('Build, sign (offline) and broadcast transfers in separate steps');
+
+tx.command('build <amount> <address>')
+  .description('Build an unsigned transfer file (online, no private key needed)')
+  .option('--from <wallet>', 'Wallet name or address to spend from (defaults to the active wallet)')
+  .option('-s, --sandbox', 'Use the sandbox environment when --from is a plain address')
+  .option('-o, --out <path>', 'Where to write the unsigned transaction file', 'mnee-tx-unsigned.json')
+  .action(async (amount: string, recipient: string, options: { from?: string; sandbox?: boolean; out: string }) => {
+    const amountValidation = validateAmount(amount);
+    if (amountValidation !== true) {
+      reportError('INVALID_AMOUNT', amountValidation as string);
+      return;
+    }
+    const address = await resolveRecipient(recipient);
+    if (!address) {
+      return;
+    }
+    const addressValidation = validateBSVAddress(address);
+    if (addressValidation !== true) {
+      reportError('INVALID_ADDRESS', addressValidation as string);
+      return;
+    }
+
+    let from: string;
+    let environment: WalletEnvironment;
+    if (options.from) {
+      const wallet = (await getWalletByName(options.from)) || (await getWalletByAddress(options.from));
+      if (wallet) {
+        from = wallet.address;
+        environment = wallet.environment;
+      } else {
+        const fromValidation = validateBSVAddress(options.from);
+        if (fromValidation !== true) {
+          reportError('WALLET_NOT_FOUND', `"${options.from}" is neither a wallet name nor a valid address.`);
+          return;
+        }
+        from = options.from.trim();
+        environment = options.sandbox ? 'sandbox' : 'production';
+      }
+    } else {
+      const activeWallet = await requireActiveWallet();
+      if (!activeWallet) {
+        return;
+      }
+      from = activeWallet.address;
+      environment = activeWallet.environment;
+    }
+
+    const spinner = createSpinner(`Building unsigned transaction from ${colors.primary(from)}...`);
+    spinner.start();
+
+    try {
+      const mneeInstance = getMneeInstance(environment);
+      const recipients: SendMNEE[] = [{ address: address.trim(), amount: parseFloat(amount) }];
+      const totalAtomic = mneeInstance.toAtomicAmount(recipients[0].amount);
+
+      const [config, utxos] = await Promise.all([
+        mneeInstance.config(),
+        mneeInstance.getEnoughUtxos(from, totalAtomic),
+      ]);
+      const feeAtomic = getFeeForAmount(config, totalAtomic);
+      if (feeAtomic === undefined) {
+        throw new Error('No fee tier covers this amount.');
+      }
+
+      const { transaction, sigRequests } = await mneeInstance.buildUnsignedMneeTransaction({
+        inputs: utxos.map((utxo) => ({ txid: utxo.txid, vout: utxo.vout })),
+        recipients,
+        changeAddress: from,
+      });
+      sigRequests.forEach((request) => {
+        request.address = from;
+      });
+
+      const txFile: TxFile = {
+        format: TX_FILE_FORMAT,
+        version: TX_FILE_VERSION,
+        stage: 'unsigned',
+        environment,
+        from,
+        recipients,
+        total: recipients[0].amount,
+        fee: mneeInstance.fromAtomicAmount(feeAtomic),
+        createdAt: new Date().toISOString(),
+        rawtx: transaction.toHex(),
+        sigRequests,
+      };
+      await writeTxFile(options.out, txFile);
+
+      spinner.succeed('Unsigned transaction built.');
+
+      if (isJsonOutput()) {
+        printJson({ file: options.out, stage: txFile.stage, from, recipients, fee: txFile.fee });
+        return;
+      }
+
+      showBox(
+        `${icons.lock} ${colors.highlight('Unsigned Transaction')}\n\n` +
+          `${icons.dot} Amount: ${formatAmount(txFile.total)}\n` +
+          `${icons.dot} To: ${colors.muted(address)}\n` +
+          `${icons.dot} Fee: ${formatAmount(txFile.fee)}\n` +
+          `${icons.dot} From: ${colors.muted(from)} ${colors.muted(`(${environment})`)}\n` +
+          `${icons.dot} Inputs: ${sigRequests.length}\n\n` +
+          `Saved to ${colors.primary(options.out)}\n` +
+          `Next: ${colors.primary(`mnee tx sign ${options.out}`)} on the signing machine`,
+        'Transaction Built',
+        'success',
+      );
+    } catch (error: any) {
+      spinner.fail('Could not build the transaction.');
+      reportError('TRANSFER_FAILED', `Build failed: ${error?.message || 'Unknown error'}`);
+    }
+  });
+
+tx.command('sign <file>')
+  .description('Sign a transaction file with a stored wallet key (works offline)')
+  .option('-o, --out <path>', 'Where to write the signed transaction file (defaults to overwriting <file>)')
+  .option('--password-stdin', 'Read the wallet password from stdin')
+  .option('--password-fd <fd>', 'Read the wallet password from a file descriptor')
+  .option('--password-env <name>', 'Read the wallet password from an environment variable')
+  .option('-y, --yes', 'Skip all confirmation prompts')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (file: string, options: NonInteractiveOptions & { out?: string }) => {
+    let txFile: TxFile;
+    try {
+      txFile = await readTxFile(file);
+    } catch (error: any) {
+      reportError('INVALID_FILE', error.message);
+      return;
+    }
+
+    if (txFile.stage !== 'unsigned') {
+      reportError('INVALID_FILE', `${file} is already ${txFile.stage}.`);
+      return;
+    }
+
+    const wallet = await getWalletByAddress(txFile.from);
+    if (!wallet) {
+      reportError('WALLET_NOT_FOUND', `No wallet on this machine holds the key for ${txFile.from}.`);
+      return;
+    }
+    if (!requireSigningWallet(wallet, 'sign transactions')) {
+      return;
+    }
+
+    // The file was written on an online machine, so what is shown and signed comes from the transaction itself
+    const mneeInstance = getMneeInstance(txFile.environment);
+    let checked: ReturnType<typeof checkTransferOutputs>;
+    try {
+      checked = checkTransferOutputs(mneeInstance, txFile, decodeTransferOutputs(txFile.rawtx));
+    } catch (error: any) {
+      reportError('INVALID_FILE', `${file} has an unreadable transaction: ${error?.message || 'Unknown error'}`);
+      return;
+    }
+    if ('error' in checked) {
+      reportError('INVALID_FILE', `${checked.error}. Refusing to sign ${file}.`);
+      return;
+    }
+    const total = mneeInstance.fromAtomicAmount(checked.recipients.reduce((sum, r) => sum + r.amount, 0));
+
+    if (!isJsonOutput()) {
+      console.log(`\n${icons.lock} ${colors.highlight('Transaction to sign')}`);
+      checked.recipients.forEach((r) =>
+        console.log(
+          `  ${icons.send} ${formatAmount(mneeInstance.fromAtomicAmount(r.amount))} ${colors.muted(`to ${r.address}`)}`,
+        ),
+      );
+      if (checked.fee) {
+        console.log(
+          `  ${icons.dot} Fee: ${formatAmount(mneeInstance.fromAtomicAmount(checked.fee.amount))} ${colors.muted(`to ${checked.fee.address}`)}`,
+        );
+      }
+      if (checked.change > 0) {
+        console.log(`  ${icons.dot} Change: ${formatAmount(mneeInstance.fromAtomicAmount(checked.change))}`);
+      }
+      console.log(`  ${icons.dot} From: ${colors.primary(wallet.name)} ${colors.muted(`(${txFile.environment})`)}\n`);
+    }
+
+    const confirm = await confirmAction(options, `Sign this transfer of ${total} MNEE?`);
+    if (!confirm) {
+      reportCancelled();
+      return;
+    }
+
+    const privateKey = await unlockWalletKey(wallet, options);
+    if (!privateKey) {
+      return;
+    }
+
+    try {
+      const { sigResponses, error } = await mneeInstance.generateSignatures(
+        { rawtx: txFile.rawtx, sigRequests: txFile.sigRequests },
+        privateKey,
+      );
+      if (error || !sigResponses) {
+        throw new Error(error?.message || 'No signatures produced.');
+      }
+
+      // Same <sig> <pubKey> unlocking script as the SDK's applySignatures, built with this package's @bsv/sdk
+      const signedTx = Transaction.fromHex(txFile.rawtx);
+      sigResponses.forEach(({ inputIndex, sig, pubKey }) => {
+        signedTx.inputs[inputIndex].unlockingScript = new UnlockingScript()
+          .writeBin(Utils.toArray(sig, 'hex'))
+          .writeBin(Utils.toArray(pubKey, 'hex'));
+      });
+      const signedFile: TxFile = {
+        ...txFile,
+        stage: 'signed',
+        rawtx: signedTx.toHex(),
+        signedAt: new Date().toISOString(),
+      };
+      const out = options.out || file;
+      await writeTxFile(out, signedFile);
+
+      if (isJsonOutput()) {
+        printJson({ file: out, stage: signedFile.stage, txid: signedTx.id('hex') });
+        return;
+      }
+
+      animateSuccess('Transaction signed!');
+      setTimeout(() => {
+        console.log(`${icons.dot} Saved to: ${colors.primary(out)}`);
+        console.log(`${icons.dot} Next: ${colors.primary(`mnee tx broadcast ${out}`)} on an online machine`);
+      }, 1200);
+    } catch (error: any) {
+      reportError('TRANSFER_FAILED', `Signing failed: ${error?.message || 'Unknown error'}`);
+    }
+  });
+
+tx.command('broadcast <file>')
+  .description('Submit a signed transaction file and wait for its status')
+  .action(async (file: string) => {
+    let txFile: TxFile;
+    try {
+      txFile = await readTxFile(file);
+    } catch (error: any) {
+      reportError('INVALID_FILE', error.message);
+      return;
+    }
+
+    if (txFile.stage !== 'signed') {
+      reportError(
+        'INVALID_FILE',
+        txFile.stage === 'unsigned' ? `${file} has not been signed yet.` : `${file} was already broadcast.`,
+      );
+      return;
+    }
+
+    const spinner = createSpinner(`${icons.send} Submitting signed transaction...`);
+    spinner.start();
+
+    let ticketId: string | undefined;
+    try {
+      const mneeInstance = getMneeInstance(txFile.environment);
+      const response = await mneeInstance.submitRawTx(txFile.rawtx);
+      if (!response.ticketId) {
+        throw new Error('No ticket ID returned.');
+      }
+      ticketId = response.ticketId;
+      spinner.stop();
+
+      // Recorded before polling, so a lost status can never send the file a second time
+      const broadcastFile: TxFile = {
+        ...txFile,
+        stage: 'broadcast',
+        ticketId: response.ticketId,
+        status: 'BROADCASTING',
+        txid: null,
+        broadcastAt: new Date().toISOString(),
+      };
+      await writeTxFile(file, broadcastFile);
+      const fromWallet = await getWalletByAddress(txFile.from);
+      await trackTicket(response.ticketId, fromWallet?.name || txFile.from, txFile.environment);
+
+      if (!isJsonOutput()) {
+        console.log(
+          `${colors.success('✓')} ${colors.primary('Transaction submitted!')} ${colors.muted(`Ticket: ${response.ticketId}`)}`,
+        );
+      }
+
+      const txAnim = startTransactionAnimation();
+      let finalStatus: TransferStatus;
+      try {
+        finalStatus = await pollForTxStatus(mneeInstance, response.ticketId);
+      } catch (error: any) {
+        txAnim.stop(false);
+        reportUnconfirmed(response.ticketId, error?.message || 'Unknown error', { file });
+        return;
+      }
+      txAnim.stop(finalStatus.status !== 'FAILED');
+
+      await writeTxFile(file, { ...broadcastFile, status: finalStatus.status, txid: finalStatus.tx_id || null });
+
+      const result = { ticketId: response.ticketId, status: finalStatus.status, txid: finalStatus.tx_id || null };
+      if (finalStatus.status === 'FAILED') {
+        reportError('TRANSFER_FAILED', finalStatus.errors || 'Transaction failed', EXIT_CODES.FAILURE, result);
+        return;
+      }
+
+      if (isJsonOutput()) {
+        printJson(result);
+        return;
+      }
+
+      setTimeout(() => {
+        showBox(
+          `${icons.check} ${colors.highlight('Transaction Details')}\n\n` +
+            `${icons.dot} Amount: ${formatAmount(txFile.total)}\n` +
+            `${icons.dot} TX ID: ${colors.muted(finalStatus.tx_id)}\n\n` +
+            `View on WhatsOnChain:\n` +
+            formatLink(`https://whatsonchain.com/tx/${finalStatus.tx_id}?tab=m8eqcrbs`),
+          'Broadcast Success',
+          'success',
+        );
+      }, 1200);
+    } catch (error: any) {
+      if (ticketId) {
+        spinner.stop();
+        reportUnconfirmed(ticketId, error?.message || 'Unknown error', { file });
+        return;
+      }
+      spinner.fail('Broadcast failed.');
+      reportError('TRANSFER_FAILED', `Broadcast failed: ${error?.message || 'Unknown error'}`);
+    }
+  });
+
+program
+  .command('export')
+  .description('Decrypt and retrieve your private key in WIF format')
+  .option('-m, --mnemonic', 'Show the recovery phrase of an HD wallet instead of the WIF key')
+  .option('--shares <n>', 'Split the key into this many Shamir shares instead of showing it', parseInt)
+  .option('--threshold <m>', 'Number of shares needed to rebuild the key (with --shares)', parseInt)
+  .option('--password-stdin', 'Read the wallet password from stdin')
+  .option('--password-fd <fd>', 'Read the wallet password from a file descriptor')
+  .option('--password-env <name>', 'Read the wallet password from an environment variable')
+  .option('-y, --yes', 'Skip all confirmation prompts')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (options: NonInteractiveOptions & { mnemonic?: boolean; shares?: number; threshold?: number }) => {
+    try {
+      const activeWallet = await requireActiveWallet();
+      if (!activeWallet || !requireSigningWallet(activeWallet, 'export a private key')) {
+        return;
+      }
+
+      if (options.mnemonic && !activeWallet.hd) {
+        console.error(`❌ Wallet "${activeWallet.name}" has no recovery phrase. Export its WIF key instead.`);
+        process.exitCode = EXIT_CODES.FAILURE;
+        return;
+      }
+
+      if (options.shares !== undefined || options.threshold !== undefined) {
+        if (options.mnemonic) {
+          reportError('INVALID_INPUT', '--shares splits the private key and cannot be combined with --mnemonic.');
+          return;
+        }
+        // Shares of the first key would rebuild a single-key wallet and lose every other derived address
+        if (activeWallet.hd) {
+          reportError(
+            'INVALID_INPUT',
+            `Wallet "${activeWallet.name}" is an HD wallet, and --shares only covers its first address. Back up its recovery phrase with mnee export --mnemonic instead.`,
+          );
+          return;
+        }
+        const { shares, threshold } = options;
+        if (
+          shares === undefined ||
+          threshold === undefined ||
+          !Number.isInteger(shares) ||
+          !Number.isInteger(threshold) ||
+          threshold < 2 ||
+          threshold > shares ||
+          shares > MAX_SHARES
+        ) {
+          reportError(
+            'INVALID_INPUT',
+            `Pass --shares <n> and --threshold <m> with 2 <= m <= n <= ${MAX_SHARES}, e.g. --shares 5 --threshold 3.`,
+          );
+          return;
+        }
+      }
+
+      const password = await getWalletPassword(options, 'Enter your wallet password:');
+
+      const encryptedKey = await getPrivateKey(activeWallet.address);
+
+      if (!encryptedKey) {
+        console.error('❌ Private key not found for this wallet.');
+        process.exitCode = EXIT_CODES.FAILURE;
+        return;
+      }
+
+      const confirm = await confirmAction(
+        options,
+        options.shares
+          ? `You are about to split your private key into ${options.shares} shares. Continue?`
+          : `You are about to expose your ${options.mnemonic ? 'recovery phrase' : 'private key'}. Continue?`,
+      );
+
+      if (!confirm) {
+        reportCancelled();
+        return;
+      }
+
+      if (options.mnemonic) {
+        const mnemonic = await decryptWalletMnemonic(activeWallet, password);
+        if (!mnemonic) {
+          return;
+        }
+
+        showBox(
+          `${icons.key} ${colors.highlight('Recovery Phrase Export')}\n\n` +
+            `${icons.wallet} Wallet: ${colors.primary(activeWallet.name)}\n` +
+            `${icons.dot} Path: ${colors.muted(activeWallet.hd!.derivationPath)}\n\n` +
+            `${icons.lock} ${colors.warning('Recovery Phrase:')}\n` +
+            `${colors.muted(mnemonic)}\n\n` +
+            `${icons.warning} ${colors.error(' KEEP THIS PHRASE SAFE!')}\n` +
+            `${colors.error('It controls every address of this wallet.')}`,
+          'Recovery Phrase',
+          'warning',
+        );
+        return;
+      }
+
+      const privateKeyHex = await decryptWalletKey(activeWallet.address, encryptedKey, password);
+      if (!privateKeyHex) {
+        console.error('❌ Incorrect password! Decryption failed.');
+        process.exitCode = EXIT_CODES.FAILURE;
+        return;
+      }
+
+      const privateKey = PrivateKey.fromString(privateKeyHex);
+
+      if (options.shares && options.threshold) {
+        const shares = splitKey(
+          Buffer.from(privateKey.toArray('be', 32)),
+          activeWallet.address,
+          options.shares,
+          options.threshold,
+        );
+
+        if (isJsonOutput()) {
+          printJson({ address: activeWallet.address, threshold: options.threshold, shares });
+          return;
+        }
+
+        showBox(
+          `${icons.key} ${colors.highlight('Private Key Shares')}\n\n` +
+            `${icons.wallet} Wallet: ${colors.primary(activeWallet.name)}\n` +
+            `${icons.dot} Address: ${colors.muted(activeWallet.address)}\n` +
+            `${icons.dot} Any ${colors.primary(String(options.threshold))} of these ${options.shares} shares rebuild the key:\n\n` +
+            shares.map((share, i) => `${colors.warning(`Share ${i + 1}:`)}\n${colors.muted(share)}`).join('\n\n') +
+            `\n\n${icons.warning} ${colors.error('Give each share to a different custodian.')}\n` +
+            `${colors.error(`Fewer than ${options.threshold} shares reveal nothing about the key.`)}\n` +
+            `${colors.muted('Rebuild with')} ${colors.primary('mnee import --shares')}`,
+          'Key Shares',
+          'warning',
+        );
+        return;
+      }
+
+      const wif = privateKey.toWif();
+
+      showBox(
+        `${icons.key} ${colors.highlight('Private Key Export')}\n\n` +
+          `${icons.wallet} Wallet: ${colors.primary(activeWallet.name)}\n` +
+          `${icons.dot} Environment: ${
+            activeWallet.environment === 'production'
+              ? colors.success(activeWallet.environment)
+              : colors.warning(activeWallet.environment)
+          }\n` +
+          `${icons.dot} Address: ${colors.muted(activeWallet.address)}\n\n` +
+          `${icons.lock} ${colors.warning('WIF Private Key:')}\n` +
+          `${colors.muted(wif)}\n\n` +
+          `${icons.warning} ${colors.error(' KEEP THIS KEY SAFE!')}\n` +
+          `${colors.error('Never share it with anyone!')}`,
+        'Private Key',
+        'warning',
+      );
+    } catch (error) {
+      console.error(`\n${icons.error} ${colors.error('Error exporting private key:')}`, error);
+      process.exitCode = EXIT_CODES.FAILURE;
+    }
+  });
+
+program
+  .command('passwd [walletName]')
+  .description('Change the password that encrypts a wallet (default: the active wallet)')
+  .option('-a, --all', 'Also change every other wallet that uses the same password')
+  .option('--password-stdin', 'Read the current password from stdin')
+  .option('--password-fd <fd>', 'Read the current password from a file descriptor')
+  .option('--password-env <name>', 'Read the current password from an environment variable')
+  .option('--new-password-env <name>', 'Read the new password from an environment variable')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(
+    async (
+      walletName: string | undefined,
+      options: NonInteractiveOptions & { all?: boolean; newPasswordEnv?: string },
+    ) => {
+      try {
+        let wallet: WalletInfo | null;
+        if (walletName) {
+          const found = await findWalletsByName([walletName]);
+          if (!found) {
+            return;
+          }
+          wallet = found[0];
+        } else {
+          wallet = await requireActiveWallet();
+          if (!wallet) {
+            return;
+          }
+        }
+        if (!requireSigningWallet(wallet, 'have a password')) {
+          return;
+        }
+
+        const password = await getWalletPassword(options, 'Enter the current wallet password:');
+        const secrets = await decryptWalletSecrets(wallet, password);
+        if ('code' in secrets) {
+          reportError(secrets.code, secrets.message);
+          return;
+        }
+        const targets = [{ wallet, secrets }];
+
+        // --all picks up every other wallet whose key opens with the same password
+        if (options.all) {
+          for (const other of await getAllWallets()) {
+            if (other.address === wallet.address || other.watchOnly) {
+              continue;
+            }
+            const otherSecrets = await decryptWalletSecrets(other, password);
+            if (!('code' in otherSecrets)) {
+              targets.push({ wallet: other, secrets: otherSecrets });
+            }
+          }
+        }
+
+        if (!isJsonOutput() && targets.length > 1) {
+          console.log(
+            `${icons.info} ${targets.length} wallets use this password: ${targets
+              .map((t) => colors.primary(t.wallet.name))
+              .join(', ')}`,
+          );
+        }
+
+        let newPassword: string;
+        if (options.newPasswordEnv) {
+          const fromEnv = readEnv(options.newPasswordEnv);
+          if (!fromEnv) {
+            failMissingInput(`Environment variable ${options.newPasswordEnv} is not set.`);
+          }
+          newPassword = fromEnv!;
+          const validation = validatePassword(newPassword);
+          if (validation !== true) {
+            reportError('INVALID_INPUT', validation as string);
+            return;
+          }
+        } else {
+          if (isNonInteractive(options)) {
+            failMissingInput('A new password is required. Use --new-password-env.');
+          }
+          const answers = await safePrompt([
+            {
+              type: 'password',
+              name: 'password',
+              message: 'Set a new password:',
+              mask: '*',
+              validate: validatePassword,
+            },
+            {
+              type: 'password',
+              name: 'confirmPassword',
+              message: 'Confirm the new password:',
+              mask: '*',
+            },
+          ]);
+          if (answers.password !== answers.confirmPassword) {
+            reportError('INVALID_INPUT', 'Passwords do not match. Try again.');
+            return;
+          }
+          newPassword = answers.password;
+        }
+
+        if (newPassword === password) {
+          reportError('INVALID_INPUT', 'The new password must be different from the current one.');
+          return;
+        }
+
+        const spinner = createSpinner('Re-encrypting wallet keys...');
+        spinner.start();
+
+        const updates = targets.map(({ wallet, secrets }) => ({
+          address: wallet.address,
+          privateKey: encryptPrivateKey(secrets.privateKey, newPassword),
+          mnemonic: secrets.mnemonic ? encryptPrivateKey(secrets.mnemonic, newPassword) : undefined,
+        }));
+        // Nothing is replaced unless every new ciphertext opens with the new password
+        const verified = updates.every(
+          (update, i) =>
+            decryptPrivateKey(update.privateKey, newPassword) === targets[i].secrets.privateKey &&
+            (!update.mnemonic || decryptPrivateKey(update.mnemonic, newPassword) === targets[i].secrets.mnemonic),
+        );
+        if (!verified) {
+          spinner.fail('Re-encryption check failed. Nothing was changed.');
+          reportError('REQUEST_FAILED', 'Re-encryption check failed. Nothing was changed.');
+          return;
+        }
+
+        try {
+          await replaceWalletSecrets(updates);
+        } catch (error: any) {
+          spinner.fail('Could not store the re-encrypted keys. The old password still works.');
+          reportError('REQUEST_FAILED', `Could not store the re-encrypted keys: ${error?.message || 'Unknown error'}`);
+          return;
+        }
+        spinner.stop();
+
+        const names = targets.map((t) => t.wallet.name);
+        if (isJsonOutput()) {
+          printJson({ wallets: names });
+          return;
+        }
 
-      if (!activeWallet) {
-        console.error(
-          `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
-            'mnee create',
-          )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
-        );
-        return;
+        await animateSuccess('Password changed!');
+        setTimeout(() => {
+          showBox(
+            `${icons.lock} ${colors.highlight('Password Changed')}\n\n` +
+              names.map((name) => `${icons.dot} ${colors.primary(name)}`).join('\n') +
+              `\n\n${colors.muted('Use the new password from now on.')}`,
+            'Password Changed',
+            'success',
+          );
+        }, 1200);
+      } catch (error) {
+        reportError('REQUEST_FAILED', 'Operation interrupted.');
       }
+    },
+  );
 
-      const spinner = createSpinner(`Checking status for ticket: ${colors.primary(ticketId)}...`);
-      spinner.start();
+type BackupCommandOptions = { passphraseEnv?: string; nonInteractive?: boolean };
 
-      try {
-        const mneeInstance = getMneeInstance(activeWallet.environment);
-        const status = await getTxStatus(mneeInstance, ticketId);
+// Reads the backup passphrase from --passphrase-env or a prompt. New backups ask twice and apply the wallet
+// password rules.
+const getBackupPassphrase = async (options: BackupCommandOptions, isNew: boolean): Promise<string | null> => {
+  if (options.passphraseEnv) {
+    const fromEnv = readEnv(options.passphraseEnv);
+    if (!fromEnv) {
+      failMissingInput(`Environment variable ${options.passphraseEnv} is not set.`);
+    }
+    const validation = isNew ? validatePassword(fromEnv!) : true;
+    if (validation !== true) {
+      reportError('INVALID_INPUT', `Backup passphrase: ${validation}`);
+      return null;
+    }
+    return fromEnv!;
+  }
 
-        spinner.stop();
+  if (options.nonInteractive) {
+    failMissingInput('A backup passphrase is required. Use --passphrase-env.');
+  }
 
-        const statusColor =
-          {
-            BROADCASTING: colors.warning,
-            SUCCESS: colors.success,
-            MINED: colors.success,
-            FAILED: colors.error,
-          }[status.status] || colors.info;
+  if (!isNew) {
+    const { passphrase } = await safePrompt([
+      { type: 'password', name: 'passphrase', message: 'Enter the backup passphrase:', mask: '*' },
+    ]);
+    return passphrase;
+  }
 
-        const statusIcon =
-          {
-            BROADCASTING: icons.time,
-            SUCCESS: icons.success,
-            MINED: '⛏️',
-            FAILED: icons.error,
-          }[status.status] || icons.info;
+  const { passphrase, confirmPassphrase } = await safePrompt([
+    {
+      type: 'password',
+      name: 'passphrase',
+      message: 'Set a passphrase for the backup:',
+      mask: '*',
+      validate: validatePassword,
+    },
+    { type: 'password', name: 'confirmPassphrase', message: 'Confirm the passphrase:', mask: '*' },
+  ]);
+  if (passphrase !== confirmPassphrase) {
+    reportError('INVALID_INPUT', 'Passphrases do not match. Try again.');
+    return null;
+  }
+  return passphrase;
+};
 
-        let content =
-          `${statusIcon} ${colors.highlight('Transaction Status')}\n\n` +
-          `${icons.dot} Ticket ID: ${colors.muted(status.id)}\n` +
-          `${icons.dot} Status: ${statusColor(status.status)}\n`;
+program
+  .command('backup')
+  .description('Write every wallet, its encrypted keys, the active wallet and the config to an encrypted file')
+  .option('-o, --out <path>', 'Where to write the backup', 'wallets.mnee')
+  .option('--passphrase-env <name>', 'Read the backup passphrase from an environment variable')
+  .option('--force', 'Replace the output file if it exists')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (options: BackupCommandOptions & { out: string; force?: boolean }) => {
+    try {
+      const wallets = await getAllWallets();
+      if (wallets.length === 0) {
+        reportError('NO_WALLETS', 'No wallets found. Run `mnee create` to create a wallet.');
+        return;
+      }
 
-        if (status.tx_id) {
-          content += `${icons.dot} TX ID: ${colors.muted(status.tx_id)}\n\n`;
-          content += `View on WhatsOnChain:\n${formatLink(
-            `https://whatsonchain.com/tx/${status.tx_id}?tab=m8eqcrbs`,
-          )}\n`;
+      const backupWallets: BackupWallet[] = [];
+      for (const wallet of wallets) {
+        const privateKey = wallet.watchOnly ? null : await getPrivateKey(wallet.address);
+        if (!wallet.watchOnly && !privateKey) {
+          reportError('KEY_NOT_FOUND', `Private key not found for wallet "${wallet.name}". Nothing was written.`);
+          return;
         }
+        const mnemonic = wallet.hd ? await getMnemonic(wallet.address) : null;
+        backupWallets.push({ wallet, privateKey, mnemonic });
+      }
 
-        content += `\n${icons.dot} Created: ${colors.muted(new Date(status.createdAt).toLocaleString())}\n`;
-        content += `${icons.dot} Updated: ${colors.muted(new Date(status.updatedAt).toLocaleString())}`;
+      const passphrase = await getBackupPassphrase(options, true);
+      if (!passphrase) {
+        return;
+      }
 
-        if (status.errors) {
-          content += `\n\n${icons.warning} ${colors.error('Errors:')} ${status.errors}`;
-        }
+      const activeWallet = await getActiveWallet();
+      const contents: BackupContents = {
+        wallets: backupWallets,
+        activeWallet: activeWallet?.address || null,
+        config: await loadConfig(),
+      };
 
-        const boxType = status.status === 'FAILED' ? 'error' : status.status === 'BROADCASTING' ? 'warning' : 'success';
-        showBox(content, 'Transaction Status', boxType);
+      try {
+        await writeBackup(options.out, contents, passphrase, Boolean(options.force));
       } catch (error: any) {
-        spinner.fail(`Error checking status: ${error.message || 'Unknown error'}`);
+        reportError(
+          'INVALID_FILE',
+          error?.code === 'EEXIST'
+            ? `${options.out} already exists. Pass --force to replace it.`
+            : `Could not write ${options.out}: ${error?.message || 'Unknown error'}`,
+        );
+        return;
+      }
+
+      if (isJsonOutput()) {
+        printJson({ file: options.out, wallets: wallets.map((w) => w.name) });
+        return;
       }
+
+      await animateSuccess('Backup written!');
+      setTimeout(() => {
+        showBox(
+          `${icons.shield} ${colors.highlight('Backup Written')}\n\n` +
+            `${icons.dot} File: ${colors.primary(options.out)}\n` +
+            `${icons.dot} Wallets: ${wallets.length}\n\n` +
+            `${colors.muted('Restore it with')} ${colors.primary(`mnee restore ${options.out}`)}\n` +
+            `${colors.muted('You need the backup passphrase and each wallet password.')}`,
+          'Backup',
+          'success',
+        );
+      }, 1200);
     } catch (error) {
-      console.error(`\n${icons.error} ${colors.error('Error:')}`, error);
+      reportError('REQUEST_FAILED', 'Operation interrupted.');
     }
   });
 
+type RestoreAction = 'add' | 'rename' | 'replace' | 'skip';
+
+const describeWalletType = (wallet: WalletInfo): string =>
+  wallet.watchOnly ? 'watch-only' : wallet.hd ? 'an HD wallet' : 'a single-key wallet';
+
+// Why a backup entry may not replace the keys of the wallet already here, or '' when it may. Replacing must not
+// turn a signing wallet watch-only or drop the derived addresses of an HD wallet.
+const getReplaceConflict = (existing: WalletInfo, entry: BackupWallet): string => {
+  if (!entry.privateKey) {
+    return 'backup copy is watch-only';
+  }
+  if (existing.watchOnly || Boolean(existing.hd) !== Boolean(entry.wallet.hd)) {
+    return `backup copy is ${describeWalletType(entry.wallet)}, this one is ${describeWalletType(existing)}`;
+  }
+  return '';
+};
+
 program
-  .command('export')
-  .description('Decrypt and retrieve your private key in WIF format')
-  .action(async () => {
+  .command('restore <file>')
+  .description('Merge the wallets and config of a backup file into this machine')
+  .option(
+    '--on-conflict <mode>',
+    'rename: restore wallets whose name is taken under a new name; skip: leave them out; ' +
+      'overwrite: like rename, but also replace the keys of wallets already here (default: rename)',
+    'rename',
+  )
+  .option('--passphrase-env <name>', 'Read the backup passphrase from an environment variable')
+  .option('-y, --yes', 'Skip all confirmation prompts')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (file: string, options: NonInteractiveOptions & BackupCommandOptions & { onConflict: string }) => {
     try {
-      const activeWallet = await getActiveWallet();
-
-      if (!activeWallet) {
-        console.error(
-          `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
-            'mnee create',
-          )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
-        );
+      if (!['rename', 'skip', 'overwrite'].includes(options.onConflict)) {
+        reportError('INVALID_INPUT', `Invalid --on-conflict "${options.onConflict}". Use rename, skip or overwrite.`);
         return;
       }
 
-      const { password } = await safePrompt([
-        {
-          type: 'password',
-          name: 'password',
-          message: 'Enter your wallet password:',
-          mask: '*',
-        },
-      ]);
-
-      const encryptedKey = await getPrivateKey(activeWallet.address);
+      const passphrase = await getBackupPassphrase(options, false);
+      if (passphrase === null) {
+        return;
+      }
 
-      if (!encryptedKey) {
-        console.error('❌ Private key not found for this wallet.');
+      let backup: Awaited<ReturnType<typeof readBackup>>;
+      try {
+        backup = await readBackup(file, passphrase);
+      } catch (error: any) {
+        reportError('INVALID_FILE', `Could not read backup ${file}: ${error?.message || 'Unknown error'}`);
+        return;
+      }
+      if (!backup) {
+        reportError('INVALID_PASSWORD', 'Incorrect backup passphrase.');
         return;
       }
+      const { contents } = backup;
 
-      const { confirm } = await safePrompt([
-        {
-          type: 'confirm',
-          name: 'confirm',
-          message: 'You are about to expose your private key. Continue?',
-          default: false,
-        },
-      ]);
+      // Wallets already here (same address) are kept unless overwriting; a taken name gets a numeric suffix
+      const wallets = await getAllWallets();
+      const takenNames = new Set(wallets.map((w) => w.name.toLowerCase()));
+      const plan = contents.wallets.map((entry) => {
+        const existing = wallets.find((w) => w.address === entry.wallet.address);
+        if (existing) {
+          const reason =
+            options.onConflict === 'overwrite' ? getReplaceConflict(existing, entry) : 'already on this machine';
+          const action: RestoreAction = reason ? 'skip' : 'replace';
+          return { entry, action, name: existing.name, reason };
+        }
+        if (!takenNames.has(entry.wallet.name.toLowerCase())) {
+          takenNames.add(entry.wallet.name.toLowerCase());
+          return { entry, action: 'add' as RestoreAction, name: entry.wallet.name, reason: '' };
+        }
+        if (options.onConflict === 'skip') {
+          return { entry, action: 'skip' as RestoreAction, name: entry.wallet.name, reason: 'name is taken' };
+        }
+        let suffix = 2;
+        while (takenNames.has(`${entry.wallet.name}-${suffix}`.toLowerCase())) {
+          suffix++;
+        }
+        const name = `${entry.wallet.name}-${suffix}`;
+        takenNames.add(name.toLowerCase());
+        return { entry, action: 'rename' as RestoreAction, name, reason: `"${entry.wallet.name}" is taken` };
+      });
+
+      if (!isJsonOutput()) {
+        console.log(`\n${icons.info} Backup from ${colors.muted(new Date(backup.createdAt).toLocaleString())}\n`);
+        table(
+          plan.map((p) => ({
+            Wallet: colors.primary(p.entry.wallet.name),
+            Address: colors.muted(p.entry.wallet.address),
+            Action:
+              p.action === 'add'
+                ? colors.success('add')
+                : p.action === 'rename'
+                  ? colors.warning(`add as ${p.name} (${p.reason})`)
+                  : p.action === 'replace'
+                    ? colors.warning(`replace keys of ${p.name}`)
+                    : colors.muted(`skip (${p.reason})`),
+          })),
+          ['Wallet', 'Address', 'Action'],
+        );
+        console.log('');
+      }
 
+      const changes = plan.filter((p) => p.action !== 'skip');
+      const confirm = await confirmAction(
+        options,
+        `Restore ${changes.length} wallet${changes.length === 1 ? '' : 's'} and merge the config?`,
+      );
       if (!confirm) {
-        console.log('🚫 Operation cancelled.');
+        reportCancelled();
         return;
       }
 
-      const privateKeyHex = decryptPrivateKey(encryptedKey, password);
-      if (!privateKeyHex) {
-        console.error('❌ Incorrect password! Decryption failed.');
+      // Keys first, in one change, so no wallet is listed without its key
+      try {
+        await replaceWalletSecrets(
+          changes
+            .filter((p) => p.entry.privateKey)
+            .map((p) => ({
+              address: p.entry.wallet.address,
+              privateKey: p.entry.privateKey!,
+              mnemonic: p.entry.mnemonic || undefined,
+            })),
+        );
+      } catch (error: any) {
+        reportError('REQUEST_FAILED', `Could not store the restored keys: ${error?.message || 'Unknown error'}`);
         return;
       }
 
-      const privateKey = PrivateKey.fromString(privateKeyHex);
-      const wif = privateKey.toWif();
+      changes.forEach((p) => {
+        const existing = wallets.find((w) => w.address === p.entry.wallet.address);
+        if (existing) {
+          // Same wallet type; keep every derived address known on either side
+          if (existing.hd && p.entry.wallet.hd) {
+            const known = new Set(existing.hd.addresses.map((a) => a.index));
+            existing.hd.addresses = [
+              ...existing.hd.addresses,
+              ...p.entry.wallet.hd.addresses.filter((a) => !known.has(a.index)),
+            ].sort((a, b) => a.index - b.index);
+          }
+        } else {
+          wallets.push({ ...p.entry.wallet, name: p.name, isActive: false });
+        }
+      });
 
-      showBox(
-        `${icons.key} ${colors.highlight('Private Key Export')}\n\n` +
-          `${icons.wallet} Wallet: ${colors.primary(activeWallet.name)}\n` +
-          `${icons.dot} Environment: ${
-            activeWallet.environment === 'production'
-              ? colors.success(activeWallet.environment)
-              : colors.warning(activeWallet.environment)
-          }\n` +
-          `${icons.dot} Address: ${colors.muted(activeWallet.address)}\n\n` +
-          `${icons.lock} ${colors.warning('WIF Private Key:')}\n` +
-          `${colors.muted(wif)}\n\n` +
-          `${icons.warning} ${colors.error(' KEEP THIS KEY SAFE!')}\n` +
-          `${colors.error('Never share it with anyone!')}`,
-        'Private Key',
-        'warning',
-      );
+      // The backup's active wallet only becomes active when no wallet is active here
+      let activeWallet = wallets.find((w) => w.isActive) || null;
+      if (!activeWallet && contents.activeWallet) {
+        activeWallet = wallets.find((w) => w.address === contents.activeWallet) || null;
+        if (activeWallet) {
+          activeWallet.isActive = true;
+        }
+      }
+      await saveWallets(wallets);
+      if (activeWallet) {
+        await setActiveWallet(activeWallet);
+      }
+
+      // Local settings win; the keystore backend is left alone because it depends on this machine
+      const config = await loadConfig();
+      const { keystore, profiles, ...restored } = contents.config || {};
+      const addedSettings: string[] = [];
+      Object.entries(restored).forEach(([key, value]) => {
+        if ((config as Record<string, unknown>)[key] === undefined && value !== undefined) {
+          (config as Record<string, unknown>)[key] = value;
+          addedSettings.push(key);
+        }
+      });
+      const addedProfiles = Object.keys(profiles || {}).filter((name) => !config.profiles?.[name]);
+      if (addedProfiles.length > 0) {
+        config.profiles = { ...config.profiles };
+        addedProfiles.forEach((name) => {
+          config.profiles![name] = profiles![name];
+        });
+      }
+      await saveConfig(config);
+
+      const result = {
+        wallets: plan.map((p) => ({
+          name: p.name,
+          address: p.entry.wallet.address,
+          action: p.action,
+        })),
+        activeWallet: activeWallet?.name || null,
+        settings: addedSettings,
+        profiles: addedProfiles,
+      };
+
+      if (isJsonOutput()) {
+        printJson(result);
+        return;
+      }
+
+      await animateSuccess('Backup restored!');
+      setTimeout(() => {
+        showBox(
+          `${icons.shield} ${colors.highlight('Backup Restored')}\n\n` +
+            `${icons.dot} Wallets restored: ${changes.length}\n` +
+            `${icons.dot} Skipped: ${plan.length - changes.length}\n` +
+            `${icons.dot} Settings added: ${addedSettings.length}\n` +
+            `${icons.dot} Profiles added: ${addedProfiles.length}\n` +
+            (activeWallet ? `${icons.dot} Active wallet: ${colors.primary(activeWallet.name)}\n` : '') +
+            `\n${colors.muted('Restored wallets open with their original passwords.')}`,
+          'Restore',
+          'success',
+        );
+      }, 1200);
     } catch (error) {
-      console.error(`\n${icons.error} ${colors.error('Error exporting private key:')}`, error);
+      reportError('REQUEST_FAILED', 'Operation interrupted.');
     }
   });
 
 program
   .command('delete <walletName>')
   .description('Delete a wallet')
-  .action(async (walletName) => {
+  .option('--password-stdin', 'Read the wallet password from stdin')
+  .option('--password-fd <fd>', 'Read the wallet password from a file descriptor')
+  .option('--password-env <name>', 'Read the wallet password from an environment variable')
+  .option('-y, --yes', 'Skip all confirmation prompts')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (walletName: string, options: NonInteractiveOptions) => {
     try {
       const wallets = await getAllWallets();
       const activeWallet = await getActiveWallet();
 
       if (wallets.length === 0) {
         console.error('❌ No wallets found.');
+        process.exitCode = EXIT_CODES.FAILURE;
         return;
       }
 
@@ -895,6 +4481,7 @@ program
 
       if (!walletName) {
         console.error('❌ No wallet specified and no active wallet found.');
+        process.exitCode = EXIT_CODES.FAILURE;
         return;
       }
 
@@ -902,49 +4489,46 @@ program
 
       if (!wallet) {
         console.error(`❌ Wallet "${walletName}" not found.`);
+        process.exitCode = EXIT_CODES.FAILURE;
         return;
       }
 
-      const { confirm } = await safePrompt([
-        {
-          type: 'confirm',
-          name: 'confirm',
-          message: `Are you sure you want to delete wallet "${walletName}"? This action cannot be undone.`,
-          default: false,
-        },
-      ]);
+      const confirm = await confirmAction(
+        options,
+        `Are you sure you want to delete wallet "${walletName}"? This action cannot be undone.`,
+      );
 
       if (!confirm) {
-        console.log('🚫 Operation cancelled.');
+        reportCancelled();
         return;
       }
 
-      const encryptedKey = await getPrivateKey(wallet.address);
-      if (!encryptedKey) {
-        console.error('❌ Private key not found for this wallet.');
-        return;
-      }
+      // Watch-only wallets have no key or password to verify
+      if (!wallet.watchOnly) {
+        const encryptedKey = await getPrivateKey(wallet.address);
+        if (!encryptedKey) {
+          console.error('❌ Private key not found for this wallet.');
+          process.exitCode = EXIT_CODES.FAILURE;
+          return;
+        }
 
-      const { password } = await safePrompt([
-        {
-          type: 'password',
-          name: 'password',
-          message: 'Enter your wallet password to confirm deletion:',
-          mask: '*',
-        },
-      ]);
+        const password = await getWalletPassword(options, 'Enter your wallet password to confirm deletion:');
 
-      let decryptedKey: string | null = null;
-      try {
-        decryptedKey = decryptPrivateKey(encryptedKey, password);
-      } catch (error) {
-        console.error('❌ Incorrect password! Deletion cancelled.');
-        return;
-      }
+        let decryptedKey: string | null = null;
+        try {
+          decryptedKey = decryptPrivateKey(encryptedKey, password);
+        } catch (error) {
+          console.error('❌ Incorrect password! Deletion cancelled.');
+          process.exitCode = EXIT_CODES.FAILURE;
+          return;
+        }
 
-      if (!decryptedKey) {
-        console.error('❌ Password verification failed. Deletion cancelled.');
-        return;
+        // A wrong password can still "decrypt" a legacy key, so the result must match the wallet
+        if (!decryptedKey || !keyMatchesAddress(decryptedKey, wallet.address)) {
+          console.error('❌ Password verification failed. Deletion cancelled.');
+          process.exitCode = EXIT_CODES.FAILURE;
+          return;
+        }
       }
 
       const updatedWallets = wallets.filter((w) => w.name !== walletName);
@@ -960,8 +4544,14 @@ program
         }
       }
 
-      // Delete the wallet's private key first
-      await deletePrivateKey(wallet.address);
+      // Delete the wallet's private key (and recovery phrase) first
+      if (!wallet.watchOnly) {
+        await deletePrivateKey(wallet.address);
+      }
+      await Promise.all(getWalletAddresses(wallet).map((address) => deleteHistoryCache(wallet.environment, address)));
+      if (wallet.hd) {
+        await deleteMnemonic(wallet.address);
+      }
 
       // Then update the wallets list
       await saveWallets(updatedWallets);
@@ -969,6 +4559,7 @@ program
       animateSuccess(`Wallet "${walletName}" deleted successfully!`);
     } catch (error) {
       console.error(`\n${icons.error} ${colors.error('Error deleting wallet:')}`, error);
+      process.exitCode = EXIT_CODES.FAILURE;
     }
   });
 
@@ -979,6 +4570,21 @@ program
     try {
       const wallets = await getAllWallets();
 
+      if (isJsonOutput()) {
+        printJson({
+          wallets: wallets.map((w) => ({
+            name: w.name,
+            environment: w.environment,
+            address: w.address,
+            isActive: w.isActive,
+            hd: Boolean(w.hd),
+            watchOnly: Boolean(w.watchOnly),
+            addresses: getWalletAddresses(w),
+          })),
+        });
+        return;
+      }
+
       if (wallets.length === 0) {
         console.log('\n❌ No wallets found. Run `mnee create` to create a wallet.');
         return;
@@ -1012,10 +4618,12 @@ program
         const envColor = wallet.environment === 'production' ? colors.success : colors.warning;
         const envLabel = wallet.environment === 'production' ? colors.success('[PROD]') : colors.warning('[TEST]');
         const activeLabel = wallet.isActive ? colors.cyan(' ← current') : '';
+        const hdLabel = wallet.hd ? colors.info(` [HD ×${wallet.hd.addresses.length}]`) : '';
+        const watchLabel = wallet.watchOnly ? colors.info(' [WATCH-ONLY]') : '';
         const paddedName = wallet.name + ' '.repeat(Math.max(0, maxNameLength - wallet.name.length));
 
         choices.push({
-          name: `  ${envColor(envIcon)}  ${paddedName}  ${envLabel}  ${colors.muted(wallet.address)}${activeLabel}`,
+          name: `  ${envColor(envIcon)}  ${paddedName}  ${envLabel}  ${colors.muted(wallet.address)}${hdLabel}${watchLabel}${activeLabel}`,
           value: wallet.name,
           short: wallet.name,
         });
@@ -1064,6 +4672,10 @@ program
         }
       }
     } catch (error) {
+      if (isJsonOutput()) {
+        reportError('REQUEST_FAILED', `Error listing wallets: ${(error as Error).message}`);
+        return;
+      }
       console.error(`\n${icons.error} ${colors.error('Error listing wallets:')}`, error);
     }
   });
@@ -1166,122 +4778,336 @@ program
     }
   });
 
-program
-  .command('import')
-  .description('Import an existing wallet using a WIF private key')
-  .action(async () => {
-    try {
-      const existingWallets = await getAllWallets();
+type ImportOptions = NonInteractiveOptions & {
+  sandbox?: boolean;
+  production?: boolean;
+  name?: string;
+  wifStdin?: boolean;
+  wifEnv?: string;
+  mnemonic?: boolean;
+  watch?: string;
+  shares?: boolean;
+};
 
-      const { environment } = await safePrompt([
-        {
-          type: 'list',
-          name: 'environment',
-          message: 'Select wallet environment:',
-          choices: [
-            { name: 'Production', value: 'production' },
-            { name: 'Sandbox', value: 'sandbox' },
-          ],
-          default: 'production',
-        },
-      ]);
+// Collects Shamir shares from `mnee export --shares` until the threshold is reached and rebuilds the key, checking
+// it against the address the shares were made for
+const readSharedKey = async (options: ImportOptions): Promise<{ privateKey: PrivateKey } | null> => {
+  const collected: KeyShare[] = [];
+  const provided = options.wifStdin ? await readStdin() : options.wifEnv ? readEnv(options.wifEnv) : undefined;
 
-      const { wifKey } = await safePrompt([
+  if (provided !== undefined) {
+    for (const text of provided.split(/\s+/).filter(Boolean)) {
+      let share: KeyShare;
+      try {
+        share = decodeShare(text);
+      } catch (error: any) {
+        reportError('INVALID_INPUT', `Invalid share: ${error.message}`);
+        return null;
+      }
+      const problem = checkShareFits(collected, share);
+      if (problem) {
+        reportError('INVALID_INPUT', problem);
+        return null;
+      }
+      collected.push(share);
+    }
+    if (collected.length === 0) {
+      failMissingInput('No key shares were given.');
+    }
+    if (collected.length < collected[0].threshold) {
+      reportError(
+        'INVALID_INPUT',
+        `${collected[0].threshold} shares are needed to rebuild the key, but only ${collected.length} were given.`,
+      );
+      return null;
+    }
+  } else {
+    if (isNonInteractive(options)) {
+      failMissingInput('Key shares are required. Use --wif-stdin or --wif-env.');
+    }
+    do {
+      const { share } = await safePrompt([
         {
           type: 'password',
-          name: 'wifKey',
-          message: 'Enter your WIF private key:',
+          name: 'share',
+          message:
+            collected.length === 0
+              ? 'Enter a key share:'
+              : `Enter share ${collected.length + 1} of ${collected[0].threshold}:`,
           mask: '*',
+          validate: (input: string) => {
+            try {
+              return checkShareFits(collected, decodeShare(input)) ?? true;
+            } catch (error: any) {
+              return error.message;
+            }
+          },
         },
       ]);
+      collected.push(decodeShare(share));
+    } while (collected.length < collected[0].threshold);
+  }
+
+  const privateKey = PrivateKey.fromString(combineSecret(collected).toString('hex'));
+  if (privateKey.toAddress() !== collected[0].address) {
+    reportError(
+      'INVALID_INPUT',
+      `The shares rebuild a key for ${privateKey.toAddress()} instead of ${collected[0].address}. One may be damaged.`,
+    );
+    return null;
+  }
+  return { privateKey };
+};
+
+// Reads the WIF key or recovery phrase being imported and returns the wallet's first key
+const readImportedKey = async (
+  options: ImportOptions,
+): Promise<{ privateKey: PrivateKey; mnemonic?: string } | null> => {
+  if (options.shares) {
+    return readSharedKey(options);
+  }
+
+  const secretName = options.mnemonic ? 'recovery phrase' : 'WIF private key';
+  let wifKey = options.wifStdin ? await readStdin() : options.wifEnv ? readEnv(options.wifEnv) : undefined;
+  if (wifKey === undefined) {
+    if (isNonInteractive(options)) {
+      failMissingInput(`A ${secretName} is required. Use --wif-stdin or --wif-env.`);
+    }
+    const result = await safePrompt([
+      {
+        type: 'password',
+        name: 'wifKey',
+        message: `Enter your ${secretName}:`,
+        mask: '*',
+      },
+    ]);
+    wifKey = result.wifKey as string;
+  }
+
+  let privateKey: PrivateKey;
+  let mnemonic: string | undefined;
+  if (options.mnemonic) {
+    mnemonic = normalizeMnemonic(wifKey);
+    if (!isValidMnemonic(mnemonic)) {
+      console.error('❌ Invalid recovery phrase. Please check the words and try again.');
+      process.exitCode = EXIT_CODES.FAILURE;
+      return null;
+    }
+    [privateKey] = deriveKeys(mnemonic, DEFAULT_DERIVATION_PATH, [0]);
+  } else {
+    try {
+      privateKey = PrivateKey.fromWif(wifKey.trim());
+    } catch (error) {
+      console.error('❌ Invalid WIF key. Please check and try again.');
+      process.exitCode = EXIT_CODES.FAILURE;
+      return null;
+    }
+  }
+
+  return { privateKey, mnemonic };
+};
+
+program
+  .command('import')
+  .description('Import an existing wallet using a WIF private key, BIP39 recovery phrase or watch-only address')
+  .option('-s, --sandbox', 'Import as a sandbox wallet')
+  .option('-p, --production', 'Import as a production wallet')
+  .option('-n, --name <walletName>', 'Name for the imported wallet')
+  .option('-m, --mnemonic', 'Recover an HD wallet from a BIP39 recovery phrase instead of a WIF key')
+  .option('-w, --watch <address>', 'Add a watch-only wallet for an address (no private key)')
+  .option('--shares', 'Rebuild the private key from Shamir shares made by mnee export --shares')
+  .option(
+    '--wif-stdin',
+    'Read the WIF private key (or recovery phrase with --mnemonic, or shares with --shares) from stdin',
+  )
+  .option(
+    '--wif-env <name>',
+    'Read the WIF private key (or recovery phrase with --mnemonic, or shares with --shares) from an environment variable',
+  )
+  .option('--password-stdin', 'Read the wallet password from stdin')
+  .option('--password-fd <fd>', 'Read the wallet password from a file descriptor')
+  .option('--password-env <name>', 'Read the wallet password from an environment variable')
+  .option('-y, --yes', 'Skip all confirmation prompts')
+  .option('--non-interactive', 'Fail instead of prompting for missing input')
+  .action(async (options: ImportOptions) => {
+    try {
+      const existingWallets = await getAllWallets();
+      const nonInteractive = isNonInteractive(options);
 
-      let privateKey: PrivateKey;
-      try {
-        privateKey = PrivateKey.fromWif(wifKey);
-      } catch (error) {
-        console.error('❌ Invalid WIF key. Please check and try again.');
+      if (options.shares && (options.mnemonic || options.watch)) {
+        reportError('INVALID_INPUT', '--shares cannot be combined with --mnemonic or --watch.');
         return;
       }
 
-      const address = privateKey.toAddress();
+      if (options.wifStdin && options.passwordStdin) {
+        failMissingInput(
+          'stdin can carry either the WIF key or the password, not both. Use --password-fd or --password-env.',
+        );
+      }
+
+      let environment: WalletEnvironment;
+      if (options.sandbox) {
+        environment = 'sandbox';
+      } else if (options.production) {
+        environment = 'production';
+      } else if (nonInteractive && activeProfile.environment) {
+        environment = activeProfile.environment;
+      } else {
+        if (nonInteractive) {
+          failMissingInput('Wallet environment is required. Pass --sandbox or --production.');
+        }
+        const result = await safePrompt([
+          {
+            type: 'list',
+            name: 'environment',
+            message: 'Select wallet environment:',
+            choices: [
+              { name: 'Production', value: 'production' },
+              { name: 'Sandbox', value: 'sandbox' },
+            ],
+            default: activeProfile.environment || 'production',
+          },
+        ]);
+        environment = result.environment;
+      }
+
+      let address: string;
+      let privateKey: PrivateKey | undefined;
+      let mnemonic: string | undefined;
+      if (options.watch) {
+        const validation = validateBSVAddress(options.watch);
+        if (validation !== true) {
+          console.error(`❌ ${validation}`);
+          process.exitCode = EXIT_CODES.FAILURE;
+          return;
+        }
+        address = options.watch.trim();
+      } else {
+        const imported = await readImportedKey(options);
+        if (!imported) {
+          return;
+        }
+        ({ privateKey, mnemonic } = imported);
+        address = privateKey.toAddress();
+      }
 
       // Check if wallet with this address already exists
       const existingWallet = await getWalletByAddress(address);
       if (existingWallet) {
         console.error(`\n❌ A wallet with address ${address} already exists.`);
         console.log(`\nTo use this wallet, run: mnee use ${existingWallet.name}`);
+        process.exitCode = EXIT_CODES.FAILURE;
         return;
       }
 
-      const { walletName } = await safePrompt([
-        {
-          type: 'input',
-          name: 'walletName',
-          message: `Enter a name for your ${environment} wallet:`,
-          default: `${environment}-wallet-${Date.now()}`,
-          validate: (input: string) => {
-            const validation = validateWalletName(input);
-            if (!validation.isValid) {
-              return validation.error || 'Invalid wallet name';
-            }
+      const validateName = (input: string) => {
+        const validation = validateWalletName(input);
+        if (!validation.isValid) {
+          return validation.error || 'Invalid wallet name';
+        }
 
-            if (existingWallets.some((w) => w.name.toLowerCase() === input.toLowerCase())) {
-              return `A wallet with name "${input}" already exists (names are case-insensitive)`;
-            }
+        if (existingWallets.some((w) => w.name.toLowerCase() === input.toLowerCase())) {
+          return `A wallet with name "${input}" already exists (names are case-insensitive)`;
+        }
 
-            return true;
+        return true;
+      };
+
+      let walletName: string;
+      if (options.name || nonInteractive) {
+        walletName = options.name || `${environment}-wallet-${Date.now()}`;
+        const validation = validateName(walletName);
+        if (validation !== true) {
+          console.error(`❌ ${validation}`);
+          process.exitCode = EXIT_CODES.FAILURE;
+          return;
+        }
+      } else {
+        const result = await safePrompt([
+          {
+            type: 'input',
+            name: 'walletName',
+            message: `Enter a name for your ${environment} wallet:`,
+            default: `${environment}-wallet-${Date.now()}`,
+            validate: validateName,
           },
-        },
-      ]);
+        ]);
+        walletName = result.walletName;
+      }
 
-      const { password, confirmPassword } = await safePrompt([
-        {
-          type: 'password',
-          name: 'password',
-          message: 'Set a password to encrypt your wallet:',
-          mask: '*',
-          validate: (input: string) => {
-            if (input.length < 8) {
-              return 'Password must be at least 8 characters long';
-            }
+      if (options.watch) {
+        const watchWallet: WalletInfo = {
+          address,
+          environment,
+          name: walletName,
+          isActive: true,
+          watchOnly: true,
+        };
 
-            // Check for at least one uppercase letter
-            if (!/[A-Z]/.test(input)) {
-              return 'Password must contain at least one uppercase letter';
-            }
+        existingWallets.forEach((wallet) => {
+          wallet.isActive = false;
+        });
 
-            // Check for at least one lowercase letter
-            if (!/[a-z]/.test(input)) {
-              return 'Password must contain at least one lowercase letter';
-            }
+        existingWallets.push(watchWallet);
+        await saveWallets(existingWallets);
+        await setActiveWallet(watchWallet);
 
-            // Check for at least one number
-            if (!/[0-9]/.test(input)) {
-              return 'Password must contain at least one number';
-            }
+        animateSuccess('Watch-only wallet added!');
 
-            // Check for at least one special character
-            if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(input)) {
-              return 'Password must contain at least one special character';
-            }
+        setTimeout(() => {
+          showBox(
+            `${icons.wallet} ${colors.highlight('Watch-Only Wallet')}\n\n` +
+              `${icons.dot} Name: ${colors.primary(walletName)}\n` +
+              `${icons.dot} Environment: ${
+                environment === 'production' ? colors.success(environment) : colors.warning(environment)
+              }\n` +
+              `${icons.dot} Address: ${colors.muted(address)}\n\n` +
+              `${icons.info} ${colors.muted('balance, history and address work; transfer and export are disabled.')}\n` +
+              `${icons.check} ${colors.success('This wallet is now active')}`,
+            'Import Success',
+            'success',
+          );
+        }, 1200);
+        return;
+      }
 
-            return true;
+      let password = await readPasswordOption(options);
+      if (password !== undefined) {
+        const validation = validatePassword(password);
+        if (validation !== true) {
+          console.error(`❌ ${validation}`);
+          process.exitCode = EXIT_CODES.FAILURE;
+          return;
+        }
+      } else {
+        if (nonInteractive) {
+          failMissingInput('A wallet password is required. Use --password-stdin, --password-fd or --password-env.');
+        }
+        const result = await safePrompt([
+          {
+            type: 'password',
+            name: 'password',
+            message: 'Set a password to encrypt your wallet:',
+            mask: '*',
+            validate: validatePassword,
           },
-        },
-        {
-          type: 'password',
-          name: 'confirmPassword',
-          message: 'Confirm your password:',
-          mask: '*',
-        },
-      ]);
+          {
+            type: 'password',
+            name: 'confirmPassword',
+            message: 'Confirm your password:',
+            mask: '*',
+          },
+        ]);
 
-      if (password !== confirmPassword) {
-        console.error('❌ Passwords do not match. Try again.');
-        return;
+        if (result.password !== result.confirmPassword) {
+          console.error('❌ Passwords do not match. Try again.');
+          process.exitCode = EXIT_CODES.FAILURE;
+          return;
+        }
+        password = result.password as string;
       }
 
-      const encryptedKey = encryptPrivateKey(privateKey.toString(), password);
+      const encryptedKey = encryptPrivateKey(privateKey!.toString(), password);
 
       const newWallet: WalletInfo = {
         address,
@@ -1290,6 +5116,26 @@ program
         isActive: true,
       };
 
+      if (mnemonic) {
+        const recoveryPhrase = mnemonic;
+        const spinner = createSpinner('Scanning for used addresses...');
+        spinner.start();
+
+        let addresses = [{ index: 0, address }];
+        try {
+          const mneeInstance = getMneeInstance(environment);
+          addresses = await discoverAddresses(recoveryPhrase, DEFAULT_DERIVATION_PATH, async (candidate) => {
+            const { history } = await mneeInstance.recentTxHistory(candidate, undefined, 1);
+            return history.length > 0;
+          });
+          spinner.succeed(`Recovered ${addresses.length} address${addresses.length !== 1 ? 'es' : ''}.`);
+        } catch (error) {
+          spinner.warn('Could not scan for used addresses. Only the first address was recovered.');
+        }
+
+        newWallet.hd = { derivationPath: DEFAULT_DERIVATION_PATH, addresses };
+      }
+
       // Deactivate all other wallets
       existingWallets.forEach((wallet) => {
         wallet.isActive = false;
@@ -1298,6 +5144,9 @@ program
       existingWallets.push(newWallet);
       await saveWallets(existingWallets);
       await setPrivateKey(address, encryptedKey);
+      if (mnemonic) {
+        await setMnemonic(address, encryptPrivateKey(mnemonic, password));
+      }
       await setActiveWallet(newWallet);
 
       animateSuccess('Wallet imported successfully!');
@@ -1309,15 +5158,268 @@ program
             `${icons.dot} Environment: ${
               environment === 'production' ? colors.success(environment) : colors.warning(environment)
             }\n` +
-            `${icons.dot} Address: ${colors.muted(address)}\n\n` +
-            `${icons.check} ${colors.success('This wallet is now active')}`,
+            `${icons.dot} Address: ${colors.muted(address)}\n` +
+            (newWallet.hd ? `${icons.dot} Derived addresses: ${newWallet.hd.addresses.length}\n` : '') +
+            `\n${icons.check} ${colors.success('This wallet is now active')}`,
           'Import Success',
           'success',
         );
       }, 1200);
     } catch (error) {
       console.error(`\n${icons.error} ${colors.error('Error importing wallet:')}`, error);
+      process.exitCode = EXIT_CODES.FAILURE;
+    }
+  });
+
+const configCommand = program.command('config').description('View and change CLI settings');
+
+// Looks up a setting and the part of the config it lives in (the selected profile, or the top level)
+const resolveSetting = (
+  config: CliConfig,
+  key: string,
+): { setting: Setting; target: Record<string, unknown> } | null => {
+  const setting = findSetting(key);
+  if (!setting) {
+    reportError('INVALID_INPUT', `Unknown setting "${key}". Available: ${SETTINGS.map((s) => s.key).join(', ')}.`);
+    return null;
+  }
+  const target = setting.scope === 'profile' ? getProfileConfig(config) : config;
+  if (!target) {
+    reportError('PROFILE_NOT_FOUND', `Profile "${getSelectedProfile()}" not found.`);
+    return null;
+  }
+  return { setting, target: target as Record<string, unknown> };
+};
+
+configCommand
+  .command('list')
+  .description('Show every setting and its current value')
+  .action(async () => {
+    const config = await loadConfig();
+    const profileConfig: CliConfig = getProfileConfig(config) || {};
+    const rows = SETTINGS.map((setting) => {
+      const value = (setting.scope === 'profile' ? profileConfig : config)[setting.field];
+      return { setting, value: value === undefined ? null : value };
+    });
+
+    if (isJsonOutput()) {
+      printJson({
+        profile: getSelectedProfile(),
+        settings: rows.map(({ setting, value }) => ({
+          key: setting.key,
+          value: setting.secret && value !== null ? formatSettingValue(setting, value) : value,
+          scope: setting.scope,
+          description: setting.description,
+        })),
+      });
+      return;
+    }
+
+    console.log('');
+    table(
+      rows.map(({ setting, value }) => ({
+        Key: colors.primary(setting.key),
+        Value: value === null ? colors.muted('(not set)') : formatSettingValue(setting, value),
+        Scope: setting.scope === 'profile' ? `profile ${getSelectedProfile()}` : 'global',
+        Description: colors.muted(setting.description),
+      })),
+      ['Key', 'Value', 'Scope', 'Description'],
+    );
+    console.log('');
+  });
+
+configCommand
+  .command('get <key>')
+  .description('Print the value of a setting')
+  .action(async (key: string) => {
+    const resolved = resolveSetting(await loadConfig(), key);
+    if (!resolved) {
+      return;
+    }
+    const { setting, target } = resolved;
+    const value = target[setting.field];
+
+    if (isJsonOutput()) {
+      printJson({ key: setting.key, value: value === undefined ? null : value, scope: setting.scope });
+      return;
+    }
+    // Like git config, an unset key prints nothing and exits with 1
+    if (value === undefined) {
+      process.exitCode = EXIT_CODES.FAILURE;
+      return;
+    }
+    console.log(String(value));
+  });
+
+configCommand
+  .command('set <key> <value>')
+  .description('Change a setting')
+  .action(async (key: string, input: string) => {
+    const config = await loadConfig();
+    const resolved = resolveSetting(config, key);
+    if (!resolved) {
+      return;
+    }
+    const { setting, target } = resolved;
+
+    const parsed = parseSettingValue(setting, input);
+    if ('error' in parsed) {
+      reportError('INVALID_INPUT', parsed.error);
+      return;
+    }
+    if (setting.type === 'address') {
+      const addressValidation = validateBSVAddress(String(parsed.value));
+      if (addressValidation !== true) {
+        reportError('INVALID_ADDRESS', addressValidation as string);
+        return;
+      }
+    }
+
+    target[setting.field] = parsed.value;
+    await saveConfig(config);
+
+    if (isJsonOutput()) {
+      printJson({ key: setting.key, value: setting.secret ? formatSettingValue(setting, parsed.value) : parsed.value });
+      return;
+    }
+    console.log(`${icons.success} ${setting.key} = ${formatSettingValue(setting, parsed.value)}`);
+    if (setting.key === 'keystore') {
+      console.log(colors.warning('Wallets already stored in the other backend are not moved.'));
+    }
+  });
+
+configCommand
+  .command('unset <key>')
+  .description('Remove a setting so its default applies')
+  .action(async (key: string) => {
+    const config = await loadConfig();
+    const resolved = resolveSetting(config, key);
+    if (!resolved) {
+      return;
+    }
+    const { setting, target } = resolved;
+
+    delete target[setting.field];
+    await saveConfig(config);
+
+    if (isJsonOutput()) {
+      printJson({ key: setting.key, value: null });
+      return;
+    }
+    console.log(`${icons.success} ${setting.key} unset`);
+  });
+
+const profileCommand = program
+  .command('profile')
+  .description('Manage named profiles (API endpoint, API key and login)');
+
+profileCommand
+  .command('add <name>')
+  .description('Add a named profile')
+  .option('--api-url <url>', `Developer portal API URL (default: ${DEFAULT_API_URL})`)
+  .option('--mnee-api-key <key>', 'MNEE API key passed to the SDK')
+  .option('-s, --sandbox', 'Default new wallets to sandbox')
+  .option('-p, --production', 'Default new wallets to production')
+  .action(async (name: string, options) => {
+    const nameValidation = validateProfileName(name);
+    if (!nameValidation.isValid) {
+      reportError('INVALID_INPUT', nameValidation.error!);
+      return;
+    }
+    if (name === DEFAULT_PROFILE) {
+      reportError('INVALID_INPUT', `"${DEFAULT_PROFILE}" is the built-in profile.`);
+      return;
+    }
+    const apiUrl = options.apiUrl ? parseSettingValue(findSetting('api-url')!, options.apiUrl) : undefined;
+    if (apiUrl && 'error' in apiUrl) {
+      reportError('INVALID_INPUT', apiUrl.error);
+      return;
+    }
+
+    const config = await loadConfig();
+    if (config.profiles?.[name]) {
+      reportError('INVALID_INPUT', `A profile named "${name}" already exists.`);
+      return;
+    }
+
+    const profile: ProfileConfig = {
+      ...(apiUrl && { apiUrl: String(apiUrl.value) }),
+      ...(options.mneeApiKey && { mneeApiKey: options.mneeApiKey }),
+      ...(options.sandbox && { environment: 'sandbox' as const }),
+      ...(options.production && { environment: 'production' as const }),
+    };
+    config.profiles = { ...config.profiles, [name]: profile };
+    await saveConfig(config);
+
+    if (isJsonOutput()) {
+      printJson({ name, ...profile, mneeApiKey: profile.mneeApiKey ? '(set)' : null });
+      return;
+    }
+    animateSuccess(`Profile ${name} added`);
+    setTimeout(() => {
+      console.log(`Use it with ${colors.primary(`mnee --profile ${name} <command>`)} or MNEE_PROFILE=${name}`);
+    }, 1200);
+  });
+
+profileCommand
+  .command('list')
+  .description('List profiles')
+  .action(async () => {
+    const config = await loadConfig();
+    const names = [DEFAULT_PROFILE, ...Object.keys(config.profiles || {}).sort()];
+    const profiles = names.map((name) => {
+      const profile = getProfileConfig(config, name)!;
+      return {
+        name,
+        selected: name === getSelectedProfile(),
+        apiUrl: profile.apiUrl || DEFAULT_API_URL,
+        mneeApiKey: Boolean(profile.mneeApiKey),
+        environment: profile.environment || null,
+        email: profile.email || null,
+      };
+    });
+
+    if (isJsonOutput()) {
+      printJson({ selected: getSelectedProfile(), profiles });
+      return;
     }
+
+    console.log('');
+    table(
+      profiles.map((p) => ({
+        Profile: p.selected ? colors.primary(`* ${p.name}`) : `  ${p.name}`,
+        'API URL': p.apiUrl,
+        'API key': p.mneeApiKey ? 'set' : colors.muted('none'),
+        Environment: p.environment || colors.muted('-'),
+        'Logged in as': p.email || colors.muted('-'),
+      })),
+      ['Profile', 'API URL', 'API key', 'Environment', 'Logged in as'],
+    );
+    console.log('');
+  });
+
+profileCommand
+  .command('remove <name>')
+  .description('Remove a profile and its saved login')
+  .action(async (name: string) => {
+    if (name === DEFAULT_PROFILE) {
+      reportError('INVALID_INPUT', `The ${DEFAULT_PROFILE} profile cannot be removed.`);
+      return;
+    }
+    const config = await loadConfig();
+    if (!config.profiles?.[name]) {
+      reportError('PROFILE_NOT_FOUND', `Profile "${name}" not found.`);
+      return;
+    }
+
+    delete config.profiles[name];
+    await saveConfig(config);
+
+    if (isJsonOutput()) {
+      printJson({ removed: name });
+      return;
+    }
+    animateSuccess(`Profile ${name} removed`);
   });
 
 program
@@ -1327,11 +5429,12 @@ program
     try {
       // Check if already logged in
       const config = await loadConfig();
+      const profileConfig = getProfileConfig(config)!;
 
-      if (config.token) {
+      if (profileConfig.token) {
         try {
           // Validate the token is still valid
-          const profile = await getProfile(apiUrl, config.token);
+          const profile = await getProfile(getApiUrl(), profileConfig.token);
           console.log(`\n✅ Already logged in as ${profile.email}`);
           console.log('\nTo log in as a different user, run `mnee logout` first.');
           return;
@@ -1344,11 +5447,11 @@ program
       console.log('🔐 Starting authentication flow...');
       console.log('Press Ctrl+C to cancel at any time.\n');
 
-      const result = await startAuthFlow(apiUrl);
+      const result = await startAuthFlow(getApiUrl());
 
-      // Update config with new auth info
-      config.token = result.token;
-      config.email = result.user.email;
+      // Update the profile with the new auth info
+      profileConfig.token = result.token;
+      profileConfig.email = result.user.email;
 
       await saveConfig(config);
 
@@ -1378,17 +5481,20 @@ program
   .action(async () => {
     try {
       const config = await loadConfig();
+      const profileConfig = getProfileConfig(config)!;
 
-      if (!config.token) {
+      if (!profileConfig.token) {
         console.log('ℹ️ Not logged in.');
         return;
       }
 
       // Call logout API
-      await logoutApi(apiUrl, config.token);
+      await logoutApi(getApiUrl(), profileConfig.token);
 
-      // Clear local config
-      await clearConfig();
+      // Forget this profile's session; other settings and profiles are kept
+      delete profileConfig.token;
+      delete profileConfig.email;
+      await saveConfig(config);
 
       animateSuccess('Successfully logged out.');
     } catch (error: any) {
@@ -1401,28 +5507,53 @@ program
   .description('Show current authenticated user')
   .action(async () => {
     try {
-      const config = await loadConfig();
+      const { token } = activeProfile;
 
-      if (!config.token) {
+      if (!token) {
+        if (isJsonOutput()) {
+          reportError('NOT_LOGGED_IN', 'Not logged in. Run `mnee login` to authenticate.');
+          return;
+        }
         console.log('❌ Not logged in. Run `mnee login` to authenticate.');
         return;
       }
 
       try {
-        const profile = await getProfile(apiUrl, config.token);
+        const profile = await getProfile(getApiUrl(), token);
+
+        if (isJsonOutput()) {
+          printJson({
+            email: profile.email,
+            name: profile.name || null,
+            company: profile.company || null,
+            profile: getSelectedProfile(),
+          });
+          return;
+        }
 
         showBox(
           `${icons.dot} Email: ${colors.primary(profile.email)}\n` +
             `${icons.dot} Name: ${colors.info(profile.name || 'Not set')}` +
-            (profile.company ? `\n${icons.dot} Company: ${colors.info(profile.company)}` : ''),
+            (profile.company ? `\n${icons.dot} Company: ${colors.info(profile.company)}` : '') +
+            (getSelectedProfile() !== DEFAULT_PROFILE
+              ? `\n${icons.dot} Profile: ${colors.info(getSelectedProfile())}`
+              : ''),
           'Current User',
           'info',
         );
       } catch (error) {
+        if (isJsonOutput()) {
+          reportError('SESSION_EXPIRED', 'Failed to get user profile. Your session may have expired.');
+          return;
+        }
         console.error('❌ Failed to get user profile. Your session may have expired.');
         console.log('Run `mnee login` to authenticate again.');
       }
     } catch (error: any) {
+      if (isJsonOutput()) {
+        reportError('REQUEST_FAILED', error.message);
+        return;
+      }
       console.error(`${icons.error} ${colors.error('Error:')}`, error.message);
     }
   });
@@ -1430,22 +5561,23 @@ program
 program
   .command('faucet')
   .description('Request sandbox tokens (requires authentication)')
-  .option('-a, --address <address>', 'Deposit address (defaults to active wallet)')
+  .option(
+    '-a, --address <address>',
+    'Deposit address (defaults to the default-address setting, then the active wallet)',
+  )
   .action(async (options) => {
     try {
-      const activeWallet = await getActiveWallet();
-
+      const activeWallet = await requireActiveWallet();
       if (!activeWallet) {
-        console.error(
-          `${icons.error} ${colors.error('No active wallet found.')} Run ${colors.primary(
-            'mnee create',
-          )} first or ${colors.primary('mnee use <wallet-name>')} to select a wallet.`,
-        );
         return;
       }
-      const config = await loadConfig();
+      const { token } = activeProfile;
 
-      if (!config.token) {
+      if (!token) {
+        if (isJsonOutput()) {
+          reportError('NOT_LOGGED_IN', 'Not logged in. Run `mnee login` to authenticate.');
+          return;
+        }
         console.log('❌ Not logged in. Run `mnee login` to authenticate.');
         return;
       }
@@ -1453,12 +5585,25 @@ program
       // Get deposit address
       let depositAddress = options.address;
 
+      if (!depositAddress && cliConfig.defaultAddress) {
+        depositAddress = cliConfig.defaultAddress;
+        if (!isJsonOutput()) {
+          console.log(`Using default address: ${depositAddress}`);
+        }
+      }
+
       if (!depositAddress) {
         depositAddress = activeWallet.address;
-        console.log(`Using active wallet address: ${depositAddress}`);
+        if (!isJsonOutput()) {
+          console.log(`Using active wallet address: ${depositAddress}`);
+        }
       }
 
       if (activeWallet.environment === 'production') {
+        if (isJsonOutput()) {
+          reportError('SANDBOX_ONLY', 'The faucet is only available in sandbox mode.');
+          return;
+        }
         console.log('❌ The faucet is only available in sandbox mode.');
         console.log('Production tokens must be purchased.');
         return;
@@ -1467,10 +5612,10 @@ program
       // Start looping airdrop animation
       const airdropAnim = startAirdropAnimation();
 
-      const response = await fetch(`${apiUrl}/faucet/cli`, {
+      const response = await fetch(`${getApiUrl()}/faucet/cli`, {
         method: 'POST',
         headers: {
-          Authorization: `Bearer ${config.token}`,
+          Authorization: `Bearer ${token}`,
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ depositAddress }),
@@ -1481,6 +5626,11 @@ program
       if (result.success) {
         airdropAnim.stop(true); // Stop with completion message
 
+        if (isJsonOutput()) {
+          printJson({ success: true, amount: result.amount || 10, address: depositAddress, txid: result.txid });
+          return;
+        }
+
         showBox(
           `${icons.money} ${colors.highlight('Tokens Received!')}\n\n` +
             `${icons.dot} Amount: ${formatAmount(result.amount || 10)}\n` +
@@ -1493,9 +5643,17 @@ program
         );
       } else {
         airdropAnim.stop(false); // Stop without completion
+        if (isJsonOutput()) {
+          reportError('REQUEST_FAILED', result.message || 'Failed to request tokens');
+          return;
+        }
         console.error(`${icons.error} ${colors.error(result.message || 'Failed to request tokens')}`);
       }
     } catch (error: any) {
+      if (isJsonOutput()) {
+        reportError('REQUEST_FAILED', `Faucet request failed: ${error.message}`);
+        return;
+      }
       console.error(`\n${icons.error} ${colors.error('Faucet request failed:')}`, error.message);
     }
   });
@@ -1547,7 +5705,7 @@ const migrateOldWallets = async (): Promise<void> => {
     ]);
 
     const decryptedKey = decryptPrivateKey(oldEncryptedKey, password);
-    if (!decryptedKey) {
+    if (!decryptedKey || !keyMatchesAddress(decryptedKey, oldAddress.trim())) {
       console.error('❌ Failed to decrypt old private key. Migration aborted.');
       return;
     }
@@ -1615,6 +5773,62 @@ const validateWalletName = (name: string): { isValid: boolean; error?: string }
   return { isValid: true };
 };
 
+// Contact names follow the wallet name rules; the "@" used to reference a contact is not part of the name
+const validateContactName = (name: string): { isValid: boolean; error?: string } => {
+  const validation = validateWalletName(name.trim().replace(/^@/, ''));
+  return validation.isValid ? validation : { isValid: false, error: validation.error!.replace('Wallet', 'Contact') };
+};
+
+const validateProfileName = (name: string): { isValid: boolean; error?: string } => {
+  const validation = validateWalletName(name);
+  return validation.isValid ? validation : { isValid: false, error: validation.error!.replace('Wallet', 'Profile') };
+};
+
+const validatePassword = (input: string): boolean | string => {
+  if (input.length < 8) {
+    return 'Password must be at least 8 characters long';
+  }
+
+  // Check for at least one uppercase letter
+  if (!/[A-Z]/.test(input)) {
+    return 'Password must contain at least one uppercase letter';
+  }
+
+  // Check for at least one lowercase letter
+  if (!/[a-z]/.test(input)) {
+    return 'Password must contain at least one lowercase letter';
+  }
+
+  // Check for at least one number
+  if (!/[0-9]/.test(input)) {
+    return 'Password must contain at least one number';
+  }
+
+  // Check for at least one special character
+  if (!/[!@#$%^&*()_+\-=\[\]{};':"\\|,.<>\/?]/.test(input)) {
+    return 'Password must contain at least one special character';
+  }
+
+  return true;
+};
+
+const validateAmount = (input: string): boolean | string => {
+  const trimmed = input.trim();
+  if (!trimmed) return 'Amount is required';
+
+  const validNumberRegex = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+  if (!validNumberRegex.test(trimmed)) {
+    return 'Invalid amount. Please enter a valid number (e.g., 10, 10.5, 1.5e-3)';
+  }
+
+  const num = parseFloat(trimmed);
+  if (isNaN(num)) return 'Invalid amount. Please enter a valid number';
+  if (num <= 0) return 'Amount must be greater than 0';
+  if (num < 0.00001) return 'Amount must be at least 0.00001 MNEE';
+
+  return true;
+};
+
 const validateBSVAddress = (address: string): boolean | string => {
   if (!address || address.trim() === '') {
     return 'Address cannot be empty';
@@ -1638,7 +5852,7 @@ const validateBSVAddress = (address: string): boolean | string => {
 
 await migrateOldWallets();
 
-program.parse(process.argv);
+await program.parseAsync(process.argv);
 
 process.on('SIGINT', () => {
   console.log(`\n${icons.dot} ${colors.muted('Exiting gracefully...')}`);
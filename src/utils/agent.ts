@@ -0,0 +1,191 @@
+import { spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './auth.js';
+
+// Key agent behind `mnee unlock`: a background process that keeps decrypted wallet keys in memory and hands them
+// to signing commands over a Unix socket (a named pipe on Windows) until they expire or `mnee lock` wipes them.
+
+export const AGENT_SOCKET =
+  process.platform === 'win32'
+    ? `\\\\.\\pipe\\mnee-agent-${os.userInfo().username}`
+    : path.join(CONFIG_DIR, 'agent.sock');
+
+// setTimeout cannot wait longer than ~24.8 days; a day is plenty for an unlocked session
+export const MAX_UNLOCK_MS = 24 * 60 * 60 * 1000;
+// An agent that receives no keys this soon after starting exits again
+const STARTUP_GRACE_MS = 30 * 1000;
+const REQUEST_TIMEOUT_MS = 2000;
+const MAX_REQUEST_BYTES = 64 * 1024;
+
+export type AgentRequest =
+  | { op: 'add'; address: string; keys: string[]; ttlMs: number }
+  | { op: 'get'; address: string }
+  | { op: 'status' }
+  | { op: 'lock' };
+
+export interface AgentResponse {
+  ok: boolean;
+  keys?: string[] | null; // WIFs, first address first
+  wallets?: { address: string; expiresAt: string }[];
+  error?: string;
+}
+
+// Sends one newline-terminated JSON request and reads the reply. Resolves null when no agent is listening.
+export const requestAgent = (request: AgentRequest): Promise<AgentResponse | null> =>
+  new Promise((resolve) => {
+    const socket = net.connect(AGENT_SOCKET);
+    let reply = '';
+    socket.setEncoding('utf-8');
+    socket.setTimeout(REQUEST_TIMEOUT_MS, () => socket.destroy());
+    socket.on('connect', () => socket.write(JSON.stringify(request) + '\n'));
+    socket.on('data', (chunk: string) => {
+      reply += chunk;
+    });
+    socket.on('error', () => resolve(null));
+    socket.on('close', () => {
+      try {
+        resolve(JSON.parse(reply));
+      } catch (error) {
+        resolve(null);
+      }
+    });
+  });
+
+// Starts the agent as a detached `<cli> agent` process and waits until it answers
+export const spawnAgent = async (cliPath: string): Promise<boolean> => {
+  const child = spawn(process.execPath, [cliPath, 'agent'], { detached: true, stdio: 'ignore' });
+  child.unref();
+
+  for (let i = 0; i < 50; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    if (await requestAgent({ op: 'status' })) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Runs the agent in this process. It exits once every cached wallet has expired or `lock` is received.
+export const runAgent = async (): Promise<void> => {
+  // A socket file left by an agent that crashed would make listen() fail
+  if (await requestAgent({ op: 'status' })) {
+    throw new Error('An agent is already running.');
+  }
+  if (process.platform !== 'win32') {
+    await ensureConfigDir();
+    await fs.rm(AGENT_SOCKET, { force: true });
+  }
+
+  const cache = new Map<string, { keys: string[]; expiresAt: number; timer: NodeJS.Timeout }>();
+  let received = false;
+
+  const shutdown = () => {
+    cache.forEach((entry) => clearTimeout(entry.timer));
+    cache.clear();
+    server.close(() => process.exit(0));
+  };
+
+  const drop = (address: string) => {
+    const entry = cache.get(address);
+    if (entry) {
+      clearTimeout(entry.timer);
+      cache.delete(address);
+    }
+    if (cache.size === 0) {
+      shutdown();
+    }
+  };
+
+  const listWallets = () =>
+    [...cache.entries()].map(([address, entry]) => ({
+      address,
+      expiresAt: new Date(entry.expiresAt).toISOString(),
+    }));
+
+  const handle = (request: AgentRequest): AgentResponse => {
+    switch (request.op) {
+      case 'add': {
+        const existing = cache.get(request.address);
+        if (existing) {
+          clearTimeout(existing.timer);
+        }
+        const ttlMs = Math.min(request.ttlMs, MAX_UNLOCK_MS);
+        cache.set(request.address, {
+          keys: request.keys,
+          expiresAt: Date.now() + ttlMs,
+          timer: setTimeout(() => drop(request.address), ttlMs),
+        });
+        received = true;
+        return { ok: true, wallets: listWallets() };
+      }
+      case 'get':
+        return { ok: true, keys: cache.get(request.address)?.keys ?? null };
+      case 'status':
+        return { ok: true, wallets: listWallets() };
+      case 'lock': {
+        const wallets = listWallets();
+        cache.forEach((entry) => clearTimeout(entry.timer));
+        cache.clear();
+        return { ok: true, wallets };
+      }
+      default:
+        return { ok: false, error: 'Unknown request' };
+    }
+  };
+
+  const server = net.createServer((socket) => {
+    let buffer = '';
+    socket.setEncoding('utf-8');
+    socket.on('error', () => {
+      // The client went away; nothing to clean up
+    });
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      const newline = buffer.indexOf('\n');
+      if (newline === -1) {
+        if (buffer.length > MAX_REQUEST_BYTES) {
+          socket.destroy();
+        }
+        return;
+      }
+
+      let response: AgentResponse;
+      try {
+        response = handle(JSON.parse(buffer.slice(0, newline)));
+      } catch (error) {
+        response = { ok: false, error: 'Invalid request' };
+      }
+      // The reply is written before the agent exits after a lock
+      socket.end(JSON.stringify(response) + '\n', () => {
+        if (received && cache.size === 0) {
+          shutdown();
+        }
+      });
+    });
+  });
+
+  // The socket hands out raw keys, so it is created owner-only rather than restricted after listen() returns
+  const previousUmask = process.umask(0o077);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(AGENT_SOCKET, () => resolve());
+    });
+  } finally {
+    process.umask(previousUmask);
+  }
+  if (process.platform !== 'win32') {
+    await fs.chmod(AGENT_SOCKET, 0o600);
+  }
+
+  setTimeout(() => {
+    if (!received) {
+      shutdown();
+    }
+  }, STARTUP_GRACE_MS);
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
@@ -5,19 +5,51 @@ import http from 'http';
 import { URL } from 'url';
 import open from 'open';
 
-export interface CliConfig {
+export const DEFAULT_API_URL = 'https://api-developer.mnee.net';
+export const DEFAULT_PROFILE = 'default';
+
+// Settings kept per profile: the developer portal URL and session, the MNEE API key and the default environment
+export interface ProfileConfig {
+  apiUrl?: string;
+  mneeApiKey?: string;
   token?: string;
   email?: string;
-  defaultAddress?: string;
   environment?: 'sandbox' | 'production';
 }
 
-const CONFIG_DIR = path.join(os.homedir(), '.mnee');
+// The default profile's settings sit at the top level, as they did before profiles existed
+export interface CliConfig extends ProfileConfig {
+  defaultAddress?: string;
+  keystore?: 'auto' | 'keychain' | 'file';
+  pollInterval?: number;
+  outputFormat?: 'text' | 'json';
+  color?: 'auto' | 'always' | 'never';
+  profiles?: Record<string, ProfileConfig>;
+}
+
+export const CONFIG_DIR = path.join(os.homedir(), '.mnee');
 const CONFIG_FILE = path.join(CONFIG_DIR, 'config.json');
 
+let selectedProfile = DEFAULT_PROFILE;
+
+export function setSelectedProfile(name?: string): void {
+  selectedProfile = name || DEFAULT_PROFILE;
+}
+
+export function getSelectedProfile(): string {
+  return selectedProfile;
+}
+
+// Returns the settings of a profile (the selected one by default) as a live part of the config, so changes are
+// written back by saveConfig. Undefined when the profile does not exist.
+export function getProfileConfig(config: CliConfig, name: string = selectedProfile): ProfileConfig | undefined {
+  return name === DEFAULT_PROFILE ? config : config.profiles?.[name];
+}
+
 export async function ensureConfigDir(): Promise<void> {
   try {
-    await fs.mkdir(CONFIG_DIR, { recursive: true });
+    // Holds the keystore and the agent socket, so only the owner may enter it
+    await fs.mkdir(CONFIG_DIR, { recursive: true, mode: 0o700 });
   } catch (error) {
     // Directory already exists
   }
@@ -38,14 +70,6 @@ export async function saveConfig(config: CliConfig): Promise<void> {
   await fs.writeFile(CONFIG_FILE, JSON.stringify(config, null, 2));
 }
 
-export async function clearConfig(): Promise<void> {
-  try {
-    await fs.unlink(CONFIG_FILE);
-  } catch (error) {
-    // File doesn't exist
-  }
-}
-
 export interface AuthResult {
   token: string;
   user: {
@@ -0,0 +1,67 @@
+import { promises as fs } from 'fs';
+import type { CliConfig } from './auth.js';
+import { decryptPrivateKey, encryptPrivateKey } from './crypto.js';
+import type { WalletInfo } from './keytar.js';
+
+// Archive written by `mnee backup` and read by `mnee restore`. Everything except the header is encrypted with the
+// backup passphrase (scrypt + AES-256-GCM, the same envelope as wallet keys). The wallet keys inside stay encrypted
+// with their own wallet passwords, so a restored wallet opens with the password it had before.
+export interface BackupWallet {
+  wallet: WalletInfo;
+  privateKey: string | null; // encrypted with the wallet password; null for watch-only wallets
+  mnemonic: string | null; // encrypted recovery phrase of HD wallets
+}
+
+export interface BackupContents {
+  wallets: BackupWallet[];
+  activeWallet: string | null; // address
+  config: CliConfig;
+}
+
+interface BackupFile {
+  format: 'mnee-backup';
+  version: 1;
+  createdAt: string;
+  data: string;
+}
+
+export const BACKUP_FORMAT = 'mnee-backup';
+export const BACKUP_VERSION = 1;
+
+// Refuses to replace an existing file unless asked; the file is readable by the owner only
+export const writeBackup = async (
+  file: string,
+  contents: BackupContents,
+  passphrase: string,
+  overwrite: boolean,
+): Promise<void> => {
+  const backup: BackupFile = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    data: encryptPrivateKey(JSON.stringify(contents), passphrase),
+  };
+  await fs.writeFile(file, JSON.stringify(backup, null, 2) + '\n', { mode: 0o600, flag: overwrite ? 'w' : 'wx' });
+};
+
+export const readBackup = async (
+  file: string,
+  passphrase: string,
+): Promise<{ createdAt: string; contents: BackupContents } | null> => {
+  const backup = JSON.parse(await fs.readFile(file, 'utf-8'));
+  if (backup?.format !== BACKUP_FORMAT || backup?.version !== BACKUP_VERSION || typeof backup.data !== 'string') {
+    throw new Error(`${file} is not a version ${BACKUP_VERSION} MNEE backup`);
+  }
+
+  // A wrong passphrase fails the GCM check, which decryptPrivateKey reports as null
+  const decrypted = decryptPrivateKey(backup.data, passphrase);
+  if (decrypted === null) {
+    return null;
+  }
+
+  const contents = JSON.parse(decrypted) as BackupContents;
+  if (!Array.isArray(contents?.wallets)) {
+    throw new Error(`${file} has no wallet list`);
+  }
+  return { createdAt: backup.createdAt, contents };
+};
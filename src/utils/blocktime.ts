@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './auth.js';
+
+// MNEE history entries carry a block height but no time; block times come from WhatsOnChain's block headers
+const WOC_API_URL = 'https://api.whatsonchain.com/v1/bsv/main';
+// WhatsOnChain allows 3 requests per second without an API key
+const REQUEST_INTERVAL_MS = 350;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// About 20 seconds of requests; any further heights are deferred to later runs so a long history never stalls
+const MAX_LOOKUPS_PER_RUN = 60;
+
+// Block times never change, so they are cached for good. Unconfirmed transactions have no block yet and are
+// timestamped with the first time this CLI saw them, until they confirm.
+const TX_TIMES_FILE = path.join(CONFIG_DIR, 'txtimes.json');
+
+interface TxTimesCache {
+  blocks: Record<string, number>; // height -> unix seconds
+  seen: Record<string, number>; // txid -> unix seconds, unconfirmed only
+}
+
+const loadCache = async (): Promise<TxTimesCache> => {
+  try {
+    const data = JSON.parse(await fs.readFile(TX_TIMES_FILE, 'utf-8'));
+    return { blocks: data.blocks || {}, seen: data.seen || {} };
+  } catch (error) {
+    return { blocks: {}, seen: {} };
+  }
+};
+
+const saveCache = async (cache: TxTimesCache): Promise<void> => {
+  try {
+    await ensureConfigDir();
+    await fs.writeFile(TX_TIMES_FILE, JSON.stringify(cache));
+  } catch (error) {
+    // The cache is an optimisation; the times are fetched again next run
+  }
+};
+
+// Throws on any failed request, so a rate limit or outage stops the whole run instead of each height in turn
+const fetchBlockTime = async (height: number): Promise<number | null> => {
+  const response = await fetch(`${WOC_API_URL}/block/height/${height}`, {
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`WhatsOnChain returned ${response.status}`);
+  }
+  const block = (await response.json()) as { time?: number };
+  return typeof block.time === 'number' ? block.time : null;
+};
+
+const fetchMissingBlockTimes = async (
+  heights: number[],
+  cache: TxTimesCache,
+  onProgress?: (done: number, total: number) => void,
+): Promise<boolean> => {
+  // Newest first, so the rows listed at the top of the history are the ones resolved when the cap is hit
+  const missing = [...new Set(heights.filter((h) => h > 0 && cache.blocks[h] === undefined))]
+    .sort((a, b) => b - a)
+    .slice(0, MAX_LOOKUPS_PER_RUN);
+
+  for (let i = 0; i < missing.length; i++) {
+    onProgress?.(i, missing.length);
+    if (i > 0) {
+      await new Promise((resolve) => setTimeout(resolve, REQUEST_INTERVAL_MS));
+    }
+    try {
+      const time = await fetchBlockTime(missing[i]);
+      if (time !== null) {
+        cache.blocks[missing[i]] = time;
+      }
+    } catch (error) {
+      // Offline, rate limited or timed out: leave the remaining heights unresolved until the next run
+      break;
+    }
+  }
+
+  return missing.length > 0;
+};
+
+// Resolves each transaction to a unix timestamp (seconds): its block time once mined, otherwise the time it was
+// first seen. Transactions whose block time cannot be fetched, is deferred past MAX_LOOKUPS_PER_RUN or is not
+// cached (when offline) are left out.
+// onProgress is called before each block header request.
+export const getTxTimes = async (
+  txs: { txid: string; height?: number }[],
+  offline: boolean = false,
+  onProgress?: (done: number, total: number) => void,
+): Promise<Map<string, number>> => {
+  const cache = await loadCache();
+  const heights = txs.map((tx) => tx.height || 0);
+  let changed = !offline && (await fetchMissingBlockTimes(heights, cache, onProgress));
+
+  const now = Math.floor(Date.now() / 1000);
+  const times = new Map<string, number>();
+  txs.forEach((tx) => {
+    if (tx.height && tx.height > 0) {
+      if (cache.seen[tx.txid] !== undefined) {
+        delete cache.seen[tx.txid];
+        changed = true;
+      }
+      const time = cache.blocks[tx.height];
+      if (time !== undefined) {
+        times.set(tx.txid, time);
+      }
+      return;
+    }
+
+    if (cache.seen[tx.txid] === undefined) {
+      cache.seen[tx.txid] = now;
+      changed = true;
+    }
+    times.set(tx.txid, cache.seen[tx.txid]);
+  });
+
+  if (changed) {
+    await saveCache(cache);
+  }
+  return times;
+};
@@ -0,0 +1,38 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './auth.js';
+
+export interface Contact {
+  name: string;
+  address: string;
+  addedAt: string;
+}
+
+const CONTACTS_FILE = path.join(CONFIG_DIR, 'contacts.json');
+
+export const loadContacts = async (): Promise<Contact[]> => {
+  try {
+    const data = JSON.parse(await fs.readFile(CONTACTS_FILE, 'utf-8'));
+    return Array.isArray(data?.contacts) ? data.contacts : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+export const saveContacts = async (contacts: Contact[]): Promise<void> => {
+  await ensureConfigDir();
+  const sorted = [...contacts].sort((a, b) => a.name.localeCompare(b.name));
+  await fs.writeFile(CONTACTS_FILE, JSON.stringify({ contacts: sorted }, null, 2));
+};
+
+// Contacts are referenced as "@name" on the command line; names are case-insensitive
+export const isContactReference = (input: string): boolean => input.trim().startsWith('@');
+
+export const findContact = (contacts: Contact[], name: string): Contact | undefined => {
+  const wanted = name.trim().replace(/^@/, '').toLowerCase();
+  return contacts.find((c) => c.name.toLowerCase() === wanted);
+};
+
+export const getContactNames = (contacts: Contact[]): Map<string, string> => {
+  return new Map(contacts.map((c) => [c.address, c.name]));
+};
@@ -1,17 +1,52 @@
 import crypto from "crypto";
-const ALGORITHM = "aes-256-cbc";
-const IV_LENGTH = 16; // AES IV length
+
+// v2 envelope: "v2:<salt>:<iv>:<authTag>:<ciphertext>" (hex), scrypt-derived key, AES-256-GCM
+const CURRENT_VERSION = "v2";
+const ALGORITHM = "aes-256-gcm";
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12; // GCM nonce length
+const KEY_LENGTH = 32;
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+// Legacy format: "<iv>:<ciphertext>" (hex), unsalted sha256(password), AES-256-CBC
+const LEGACY_ALGORITHM = "aes-256-cbc";
+
+const deriveKey = (password: string, salt: Buffer): Buffer => {
+  return crypto.scryptSync(password, salt, KEY_LENGTH, SCRYPT_OPTIONS);
+};
 
 export const encryptPrivateKey = (
   privateKey: string,
   password: string
 ): string => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
   const iv = crypto.randomBytes(IV_LENGTH);
-  const key = crypto.createHash("sha256").update(password).digest();
+  const key = deriveKey(password, salt);
   const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
   let encrypted = cipher.update(privateKey, "utf8", "hex");
   encrypted += cipher.final("hex");
-  return `${iv.toString("hex")}:${encrypted}`;
+  const authTag = cipher.getAuthTag();
+  return [
+    CURRENT_VERSION,
+    salt.toString("hex"),
+    iv.toString("hex"),
+    authTag.toString("hex"),
+    encrypted,
+  ].join(":");
+};
+
+export const isLegacyCiphertext = (encryptedData: string): boolean => {
+  return !encryptedData.startsWith(`${CURRENT_VERSION}:`);
+};
+
+const decryptLegacy = (encryptedData: string, password: string): string => {
+  const [ivHex, encryptedKey] = encryptedData.split(":");
+  const iv = Buffer.from(ivHex, "hex");
+  const key = crypto.createHash("sha256").update(password).digest();
+  const decipher = crypto.createDecipheriv(LEGACY_ALGORITHM, key, iv);
+  let decrypted = decipher.update(encryptedKey, "hex", "utf8");
+  decrypted += decipher.final("utf8");
+  return decrypted;
 };
 
 export const decryptPrivateKey = (
@@ -19,10 +54,14 @@ export const decryptPrivateKey = (
   password: string
 ): string | null => {
   try {
-    const [ivHex, encryptedKey] = encryptedData.split(":");
-    const iv = Buffer.from(ivHex, "hex");
-    const key = crypto.createHash("sha256").update(password).digest();
-    const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+    if (isLegacyCiphertext(encryptedData)) {
+      return decryptLegacy(encryptedData, password);
+    }
+
+    const [, saltHex, ivHex, authTagHex, encryptedKey] = encryptedData.split(":");
+    const key = deriveKey(password, Buffer.from(saltHex, "hex"));
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(ivHex, "hex"));
+    decipher.setAuthTag(Buffer.from(authTagHex, "hex"));
     let decrypted = decipher.update(encryptedKey, "hex", "utf8");
     decrypted += decipher.final("utf8");
     return decrypted;
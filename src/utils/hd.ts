@@ -0,0 +1,38 @@
+import { PrivateKey } from '@bsv/sdk';
+import Mnee from '@mnee/ts-sdk';
+import type { DerivedAddress, HdWalletInfo } from './keytar.js';
+
+// BIP44 account path used by the MNEE SDK; addresses live on its receive chain (<path>/0/<index>)
+export const DEFAULT_DERIVATION_PATH = "m/44'/236'/0'";
+// Consecutive unused addresses scanned before recovery stops (BIP44 default)
+export const GAP_LIMIT = 20;
+
+export const generateMnemonic = (): string => Mnee.HDWallet.generateMnemonic();
+
+export const normalizeMnemonic = (phrase: string): string => phrase.trim().toLowerCase().split(/\s+/).join(' ');
+
+export const isValidMnemonic = (phrase: string): boolean => Mnee.HDWallet.isValidMnemonic(normalizeMnemonic(phrase));
+
+export const getAddressPath = (hd: HdWalletInfo, index: number): string => `${hd.derivationPath}/0/${index}`;
+
+// Derives the receive-chain keys for the given indexes, in the same order
+export const deriveKeys = (mnemonic: string, derivationPath: string, indexes: number[]): PrivateKey[] => {
+  const hdWallet = new Mnee.HDWallet(normalizeMnemonic(mnemonic), { derivationPath });
+  return indexes.map((index) => PrivateKey.fromWif(hdWallet.deriveAddress(index).privateKey));
+};
+
+// Finds the used receive addresses of a recovered phrase; falls back to the first address when none are used
+export const discoverAddresses = async (
+  mnemonic: string,
+  derivationPath: string,
+  isUsed: (address: string) => Promise<boolean>,
+): Promise<DerivedAddress[]> => {
+  const hdWallet = new Mnee.HDWallet(normalizeMnemonic(mnemonic), { derivationPath });
+  const { receive } = await hdWallet.scanAddressesWithGapLimit(isUsed, { gapLimit: GAP_LIMIT, scanChange: false });
+
+  const addresses = receive.map((info) => ({ index: Number(info.path.split('/').pop()), address: info.address }));
+  if (addresses.length === 0 || addresses[0].index !== 0) {
+    addresses.unshift({ index: 0, address: hdWallet.deriveAddress(0).address });
+  }
+  return addresses;
+};
@@ -48,3 +48,32 @@ export const singleLineLogger: SingleLineLogger = (() => {
     },
   };
 })();
+
+const RELATIVE_UNITS: Record<string, number> = { m: 60, h: 60 * 60, d: 24 * 60 * 60, w: 7 * 24 * 60 * 60 };
+
+// Parses --since/--until values into unix seconds: ISO dates ("2025-01-31", "2025-01-31T12:00:00Z") or ages
+// relative to now ("30m", "12h", "7d", "2w"). A plain date used as an upper bound covers that whole day.
+export const parseDateOption = (value: string, endOfDay: boolean = false): number | null => {
+  const input = value.trim();
+  const relative = input.match(/^(\d+)\s*([mhdw])$/i);
+  if (relative) {
+    return Math.floor(Date.now() / 1000) - Number(relative[1]) * RELATIVE_UNITS[relative[2].toLowerCase()];
+  }
+
+  const ms = Date.parse(input);
+  if (Number.isNaN(ms)) {
+    return null;
+  }
+  const wholeDay = endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(input);
+  return Math.floor(ms / 1000) + (wholeDay ? RELATIVE_UNITS.d - 1 : 0);
+};
+
+// Parses durations such as "90s", "15m", "2h" or "1d" into milliseconds
+export const parseDuration = (value: string): number | null => {
+  const match = value.trim().match(/^(\d+)\s*([smhd])$/i);
+  if (!match || Number(match[1]) === 0) {
+    return null;
+  }
+  const unit = match[2].toLowerCase();
+  return Number(match[1]) * (unit === 's' ? 1 : RELATIVE_UNITS[unit]) * 1000;
+};
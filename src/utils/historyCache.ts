@@ -0,0 +1,114 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import type Mnee from '@mnee/ts-sdk';
+import type { TxHistory } from '@mnee/ts-sdk';
+import { CONFIG_DIR, ensureConfigDir } from './auth.js';
+import type { WalletEnvironment } from './keytar.js';
+
+// One file per address under ~/.mnee/history. `lastScore` is the highest score of a confirmed entry: each sync
+// pages forward (ascending) from it, so only newer entries are downloaded. Unconfirmed entries always sit above
+// it and are therefore fetched again until they confirm.
+const HISTORY_DIR = path.join(CONFIG_DIR, 'history');
+const HISTORY_CACHE_VERSION = 1;
+const PAGE_SIZE = 100;
+// Pages fetched per sync; a longer backlog (first sync of a busy wallet) continues on the next run
+const MAX_SYNC_PAGES = 200;
+
+export interface HistoryCache {
+  version: number;
+  address: string;
+  environment: WalletEnvironment;
+  lastScore: number;
+  complete: boolean; // false while older entries are still to be fetched
+  syncedAt: string | null;
+  transactions: TxHistory[];
+}
+
+const cacheFile = (environment: WalletEnvironment, address: string) =>
+  path.join(HISTORY_DIR, `${environment}-${address}.json`);
+
+export const readHistoryCache = async (environment: WalletEnvironment, address: string): Promise<HistoryCache> => {
+  try {
+    const data = JSON.parse(await fs.readFile(cacheFile(environment, address), 'utf-8'));
+    if (data?.version === HISTORY_CACHE_VERSION && Array.isArray(data.transactions)) {
+      return data;
+    }
+  } catch (error) {
+    // Missing or unreadable cache: start over
+  }
+  return {
+    version: HISTORY_CACHE_VERSION,
+    address,
+    environment,
+    lastScore: 0,
+    complete: false,
+    syncedAt: null,
+    transactions: [],
+  };
+};
+
+const writeHistoryCache = async (cache: HistoryCache): Promise<void> => {
+  await ensureConfigDir();
+  await fs.mkdir(HISTORY_DIR, { recursive: true });
+  const file = cacheFile(cache.environment, cache.address);
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(cache));
+  await fs.rename(tmpFile, file);
+};
+
+export const deleteHistoryCache = async (environment: WalletEnvironment, address: string): Promise<void> => {
+  try {
+    await fs.unlink(cacheFile(environment, address));
+  } catch (error) {
+    // Nothing cached for this address
+  }
+};
+
+// Fetches entries newer than the cached watermark, merges them by txid and saves the cache
+export const syncHistory = async (
+  mneeInstance: Mnee,
+  environment: WalletEnvironment,
+  address: string,
+): Promise<HistoryCache> => {
+  const cache = await readHistoryCache(environment, address);
+  const byTxid = new Map(cache.transactions.map((tx) => [tx.txid, tx]));
+  const fetched = new Set<string>();
+
+  let fromScore = cache.lastScore;
+  let reachedEnd = false;
+  for (let page = 0; page < MAX_SYNC_PAGES; page++) {
+    const { history, nextScore } = await mneeInstance.recentTxHistory(address, fromScore, PAGE_SIZE, 'asc');
+    history.forEach((tx) => {
+      byTxid.set(tx.txid, tx);
+      fetched.add(tx.txid);
+    });
+
+    if (history.length < PAGE_SIZE || nextScore === fromScore) {
+      reachedEnd = true;
+      break;
+    }
+    fromScore = nextScore;
+  }
+
+  // A full pass returns every unconfirmed entry again; the ones that did not come back were dropped
+  if (reachedEnd) {
+    byTxid.forEach((tx, txid) => {
+      if (tx.status === 'unconfirmed' && !fetched.has(txid)) {
+        byTxid.delete(txid);
+      }
+    });
+  }
+
+  const transactions = Array.from(byTxid.values()).sort((a, b) => (b.score || 0) - (a.score || 0));
+  const confirmedScores = transactions.filter((tx) => tx.status === 'confirmed').map((tx) => tx.score || 0);
+
+  const updated: HistoryCache = {
+    ...cache,
+    lastScore: Math.max(cache.lastScore, ...confirmedScores),
+    complete: reachedEnd,
+    syncedAt: new Date().toISOString(),
+    transactions,
+  };
+  await writeHistoryCache(updated);
+  return updated;
+};
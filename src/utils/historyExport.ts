@@ -0,0 +1,161 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { csvCell } from './payouts.js';
+
+export type HistoryExportFormat = 'csv' | 'json' | 'ofx' | 'qif';
+
+export const HISTORY_EXPORT_FORMATS: HistoryExportFormat[] = ['csv', 'json', 'ofx', 'qif'];
+
+export interface HistoryExportRow {
+  txid: string;
+  timestamp: string | null; // ISO 8601 block time (first-seen time while unconfirmed); null when unknown
+  height: number | null;
+  direction: 'send' | 'receive';
+  amount: number;
+  fee: number;
+  counterparties: { address: string; amount: number }[];
+  status: string;
+}
+
+export interface HistoryExportAccount {
+  wallet: string;
+  address: string;
+  environment: string;
+}
+
+// The format comes from --format, or else from the file extension (defaulting to CSV)
+export const resolveExportFormat = (file: string, format?: string): HistoryExportFormat | null => {
+  const candidate = (format || path.extname(file).slice(1) || 'csv').toLowerCase();
+  return HISTORY_EXPORT_FORMATS.includes(candidate as HistoryExportFormat) ? (candidate as HistoryExportFormat) : null;
+};
+
+const toCsv = (rows: HistoryExportRow[]): string => {
+  const header = ['txid', 'timestamp', 'height', 'direction', 'amount', 'fee', 'counterparties', 'status'];
+  const lines = rows.map((r) =>
+    [
+      r.txid,
+      r.timestamp,
+      r.height,
+      r.direction,
+      r.amount,
+      r.fee,
+      r.counterparties.map((cp) => `${cp.address}:${cp.amount}`).join(';'),
+      r.status,
+    ]
+      .map(csvCell)
+      .join(','),
+  );
+  return [header.join(','), ...lines].join('\n') + '\n';
+};
+
+// Sends leave the wallet, so they are negative in bank-statement formats
+const signedAmount = (row: HistoryExportRow): number => (row.direction === 'send' ? -row.amount : row.amount);
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const ofxDate = (iso: string): string => iso.replace(/[-:T]/g, '').slice(0, 14);
+
+const memoFor = (row: HistoryExportRow): string => {
+  const fee = row.fee > 0 ? ` fee ${row.fee}` : '';
+  return `MNEE ${row.direction} ${row.status}${fee}`;
+};
+
+const toOfx = (rows: HistoryExportRow[], account: HistoryExportAccount): string => {
+  const now = ofxDate(new Date().toISOString());
+  const dated = rows.filter((r) => r.timestamp);
+  const start = dated.length > 0 ? ofxDate(dated[dated.length - 1].timestamp!) : now;
+  const end = dated.length > 0 ? ofxDate(dated[0].timestamp!) : now;
+
+  const transactions = rows.map((r) =>
+    [
+      '<STMTTRN>',
+      `<TRNTYPE>${r.direction === 'send' ? 'DEBIT' : 'CREDIT'}`,
+      `<DTPOSTED>${r.timestamp ? ofxDate(r.timestamp) : now}`,
+      `<TRNAMT>${signedAmount(r)}`,
+      `<FITID>${r.txid}`,
+      `<NAME>${escapeXml((r.counterparties[0]?.address || 'MNEE').slice(0, 32))}`,
+      `<MEMO>${escapeXml(memoFor(r))}`,
+      '</STMTTRN>',
+    ].join('\n'),
+  );
+
+  return (
+    [
+      'OFXHEADER:100',
+      'DATA:OFXSGML',
+      'VERSION:102',
+      'SECURITY:NONE',
+      'ENCODING:USASCII',
+      'CHARSET:1252',
+      'COMPRESSION:NONE',
+      'OLDFILEUID:NONE',
+      'NEWFILEUID:NONE',
+      '',
+      '<OFX>',
+      '<SIGNONMSGSRSV1><SONRS>',
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      `<DTSERVER>${now}`,
+      '<LANGUAGE>ENG',
+      '</SONRS></SIGNONMSGSRSV1>',
+      '<BANKMSGSRSV1><STMTTRNRS>',
+      '<TRNUID>0',
+      '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+      '<STMTRS>',
+      '<CURDEF>USD',
+      `<BANKACCTFROM><BANKID>MNEE<ACCTID>${account.address}<ACCTTYPE>CHECKING</BANKACCTFROM>`,
+      '<BANKTRANLIST>',
+      `<DTSTART>${start}`,
+      `<DTEND>${end}`,
+      ...transactions,
+      '</BANKTRANLIST>',
+      '</STMTRS>',
+      '</STMTTRNRS></BANKMSGSRSV1>',
+      '</OFX>',
+    ].join('\n') + '\n'
+  );
+};
+
+const qifDate = (iso: string): string => {
+  const [year, month, day] = iso.slice(0, 10).split('-');
+  return `${month}/${day}/${year}`;
+};
+
+const toQif = (rows: HistoryExportRow[]): string => {
+  const today = new Date().toISOString();
+  const entries = rows.map((r) =>
+    [
+      `D${qifDate(r.timestamp || today)}`,
+      `T${signedAmount(r)}`,
+      `P${r.counterparties[0]?.address || 'MNEE'}`,
+      `M${memoFor(r)} ${r.txid}`,
+      ...(r.status === 'confirmed' ? ['CX'] : []),
+      '^',
+    ].join('\n'),
+  );
+  return ['!Type:Bank', ...entries].join('\n') + '\n';
+};
+
+export const writeHistoryExport = async (
+  file: string,
+  format: HistoryExportFormat,
+  rows: HistoryExportRow[],
+  account: HistoryExportAccount,
+): Promise<void> => {
+  let content: string;
+  switch (format) {
+    case 'json':
+      content =
+        JSON.stringify({ ...account, exportedAt: new Date().toISOString(), transactions: rows }, null, 2) + '\n';
+      break;
+    case 'ofx':
+      content = toOfx(rows, account);
+      break;
+    case 'qif':
+      content = toQif(rows);
+      break;
+    default:
+      content = toCsv(rows);
+  }
+  await fs.writeFile(file, content);
+};
@@ -0,0 +1,62 @@
+import { createReadStream } from 'fs';
+
+// Exit codes for scripted (non-interactive) usage
+export const EXIT_CODES = {
+  FAILURE: 1,
+  MISSING_INPUT: 2,
+  UNKNOWN_OUTCOME: 3, // broadcast, but the final status could not be read; do not resend blindly
+};
+
+export interface NonInteractiveOptions {
+  passwordStdin?: boolean;
+  passwordFd?: string;
+  passwordEnv?: string;
+  yes?: boolean;
+  nonInteractive?: boolean;
+}
+
+export const isNonInteractive = (options: NonInteractiveOptions): boolean => {
+  return Boolean(
+    options.nonInteractive || options.passwordStdin || options.passwordFd !== undefined || options.passwordEnv,
+  );
+};
+
+const readStream = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  // Drop the single trailing newline added by `echo` or a here-string
+  return Buffer.concat(chunks)
+    .toString('utf-8')
+    .replace(/\r?\n$/, '');
+};
+
+export const readStdin = (): Promise<string> => readStream(process.stdin);
+
+export const readFd = (fd: string): Promise<string> => {
+  const parsed = Number(fd);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`Invalid file descriptor "${fd}"`);
+  }
+  return readStream(createReadStream('', { fd: parsed }));
+};
+
+export const readEnv = (name: string): string | undefined => {
+  const value = process.env[name];
+  return value ? value : undefined;
+};
+
+// Returns the password from the first configured source, or undefined when none was given
+export const readPasswordOption = async (options: NonInteractiveOptions): Promise<string | undefined> => {
+  if (options.passwordStdin) {
+    return readStdin();
+  }
+  if (options.passwordFd !== undefined) {
+    return readFd(options.passwordFd);
+  }
+  if (options.passwordEnv) {
+    return readEnv(options.passwordEnv);
+  }
+  return undefined;
+};
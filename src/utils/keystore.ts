@@ -0,0 +1,201 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { CONFIG_DIR, loadConfig } from './auth.js';
+
+export type KeystoreBackend = 'auto' | 'keychain' | 'file';
+
+// Same shape as the keytar API so either backend can be dropped in
+export interface SecretStore {
+  backend: Exclude<KeystoreBackend, 'auto'>;
+  getPassword: (service: string, account: string) => Promise<string | null>;
+  setPassword: (service: string, account: string, password: string) => Promise<void>;
+  deletePassword: (service: string, account: string) => Promise<boolean>;
+  // Stores several entries in one write, where the backend can
+  setPasswords?: (service: string, passwords: Record<string, string>) => Promise<void>;
+}
+
+type KeystoreFile = {
+  version: 1;
+  kdf: 'keyfile' | 'scrypt';
+  salt?: string;
+  iv: string;
+  tag: string;
+  data: string;
+};
+
+export const KEYSTORE_FILE = path.join(CONFIG_DIR, 'keystore.json');
+export const KEYSTORE_KEY_FILE = path.join(CONFIG_DIR, 'keystore.key');
+export const KEYSTORE_BACKENDS: KeystoreBackend[] = ['auto', 'keychain', 'file'];
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_LENGTH = 12; // GCM nonce length
+const KEY_LENGTH = 32;
+
+const writeFileAtomic = async (file: string, data: string): Promise<void> => {
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, data, { mode: 0o600 });
+  await fs.rename(tmpFile, file);
+};
+
+// Without a passphrase the keystore is sealed with a random key kept next to it (owner-only permissions),
+// so secrets are never written in plaintext. Each private key inside is still encrypted with its wallet password.
+const getKeyFileKey = async (): Promise<Buffer> => {
+  try {
+    return Buffer.from((await fs.readFile(KEYSTORE_KEY_FILE, 'utf-8')).trim(), 'hex');
+  } catch (error) {
+    const key = crypto.randomBytes(KEY_LENGTH);
+    await fs.mkdir(CONFIG_DIR, { recursive: true });
+    await writeFileAtomic(KEYSTORE_KEY_FILE, key.toString('hex'));
+    return key;
+  }
+};
+
+const getStoreKey = async (kdf: KeystoreFile['kdf'], salt?: string): Promise<Buffer> => {
+  if (kdf === 'keyfile') {
+    return getKeyFileKey();
+  }
+
+  const passphrase = process.env.MNEE_KEYSTORE_PASSPHRASE;
+  if (!passphrase) {
+    throw new Error(`The keystore at ${KEYSTORE_FILE} is passphrase protected. Set MNEE_KEYSTORE_PASSPHRASE.`);
+  }
+  return crypto.scryptSync(passphrase, Buffer.from(salt || '', 'hex'), KEY_LENGTH);
+};
+
+const readEntries = async (): Promise<Record<string, string>> => {
+  let raw: string;
+  try {
+    raw = await fs.readFile(KEYSTORE_FILE, 'utf-8');
+  } catch (error) {
+    return {};
+  }
+
+  const store = JSON.parse(raw) as KeystoreFile;
+  const key = await getStoreKey(store.kdf, store.salt);
+
+  try {
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(store.iv, 'hex'));
+    decipher.setAuthTag(Buffer.from(store.tag, 'hex'));
+    const decrypted = Buffer.concat([decipher.update(Buffer.from(store.data, 'hex')), decipher.final()]);
+    return JSON.parse(decrypted.toString('utf8'));
+  } catch (error) {
+    throw new Error(`Unable to decrypt the keystore at ${KEYSTORE_FILE}. Check MNEE_KEYSTORE_PASSPHRASE.`);
+  }
+};
+
+const writeEntries = async (entries: Record<string, string>): Promise<void> => {
+  await fs.mkdir(CONFIG_DIR, { recursive: true });
+
+  const isNew = !(await fs.stat(KEYSTORE_FILE).catch(() => null));
+  const kdf: KeystoreFile['kdf'] = process.env.MNEE_KEYSTORE_PASSPHRASE ? 'scrypt' : 'keyfile';
+  const salt = kdf === 'scrypt' ? crypto.randomBytes(16).toString('hex') : undefined;
+  const key = await getStoreKey(kdf, salt);
+
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const data = Buffer.concat([cipher.update(JSON.stringify(entries), 'utf8'), cipher.final()]);
+
+  const store: KeystoreFile = {
+    version: 1,
+    kdf,
+    salt,
+    iv: iv.toString('hex'),
+    tag: cipher.getAuthTag().toString('hex'),
+    data: data.toString('hex'),
+  };
+
+  await writeFileAtomic(KEYSTORE_FILE, JSON.stringify(store, null, 2));
+
+  if (isNew) {
+    console.error(`ℹ️ OS keychain not in use. Wallets are stored in the encrypted keystore at ${KEYSTORE_FILE}`);
+  }
+};
+
+const entryKey = (service: string, account: string) => `${service}:${account}`;
+
+// Mutations are read-modify-write on one file, so run them one at a time
+let pendingWrite: Promise<unknown> = Promise.resolve();
+const updateEntries = <T>(update: (entries: Record<string, string>) => T): Promise<T> => {
+  const next = pendingWrite.then(async () => {
+    const entries = await readEntries();
+    const result = update(entries);
+    await writeEntries(entries);
+    return result;
+  });
+  pendingWrite = next.catch(() => undefined);
+  return next;
+};
+
+export const fileStore: SecretStore = {
+  backend: 'file',
+  getPassword: async (service, account) => {
+    await pendingWrite;
+    const entries = await readEntries();
+    return entries[entryKey(service, account)] ?? null;
+  },
+  setPassword: (service, account, password) =>
+    updateEntries((entries) => {
+      entries[entryKey(service, account)] = password;
+    }),
+  deletePassword: (service, account) =>
+    updateEntries((entries) => {
+      if (!(entryKey(service, account) in entries)) return false;
+      delete entries[entryKey(service, account)];
+      return true;
+    }),
+  setPasswords: (service, passwords) =>
+    updateEntries((entries) => {
+      Object.entries(passwords).forEach(([account, password]) => {
+        entries[entryKey(service, account)] = password;
+      });
+    }),
+};
+
+// keytar is a native module, so importing it can fail outright when libsecret is missing
+const loadKeychainStore = async (probeService: string): Promise<SecretStore> => {
+  const { default: keytar } = await import('keytar');
+  // A reachable keyring answers lookups; a missing D-Bus session or keyring daemon throws here
+  await keytar.getPassword(probeService, '__probe__');
+  return {
+    backend: 'keychain',
+    getPassword: (service, account) => keytar.getPassword(service, account),
+    setPassword: (service, account, password) => keytar.setPassword(service, account, password),
+    deletePassword: (service, account) => keytar.deletePassword(service, account),
+  };
+};
+
+export const getConfiguredBackend = async (): Promise<KeystoreBackend> => {
+  const fromEnv = process.env.MNEE_KEYSTORE as KeystoreBackend | undefined;
+  if (fromEnv) {
+    if (!KEYSTORE_BACKENDS.includes(fromEnv)) {
+      throw new Error(`Invalid MNEE_KEYSTORE value "${fromEnv}". Use one of: ${KEYSTORE_BACKENDS.join(', ')}`);
+    }
+    return fromEnv;
+  }
+
+  const config = await loadConfig();
+  return config.keystore || 'auto';
+};
+
+export const resolveSecretStore = async (probeService: string): Promise<SecretStore> => {
+  const backend = await getConfiguredBackend();
+
+  if (backend === 'file') {
+    return fileStore;
+  }
+
+  if (backend === 'keychain') {
+    try {
+      return await loadKeychainStore(probeService);
+    } catch (error: any) {
+      throw new Error(`OS keychain is not available: ${error.message}. Use the file keystore with MNEE_KEYSTORE=file.`);
+    }
+  }
+
+  try {
+    return await loadKeychainStore(probeService);
+  } catch (error) {
+    return fileStore;
+  }
+};
@@ -1,11 +1,21 @@
-import keytar from 'keytar';
+import { resolveSecretStore, SecretStore } from './keystore.js';
 
 export type WalletEnvironment = 'production' | 'sandbox';
-export type WalletInfo = {
+export type DerivedAddress = {
+  index: number; // position on the receive chain, i.e. <derivationPath>/0/<index>
   address: string;
+};
+export type HdWalletInfo = {
+  derivationPath: string;
+  addresses: DerivedAddress[];
+};
+export type WalletInfo = {
+  address: string; // first derived address for HD wallets
   environment: WalletEnvironment;
   name: string;
   isActive: boolean;
+  hd?: HdWalletInfo; // set for wallets created or recovered from a BIP39 mnemonic
+  watchOnly?: boolean; // address imported with --watch; no private key is stored
 };
 
 export const SERVICE_NAME = 'mnee-cli';
@@ -14,56 +24,135 @@ export const ACTIVE_WALLET_KEY = 'activeWallet';
 export const LEGACY_WALLET_ADDRESS_KEY = 'walletAddress';
 export const LEGACY_PRIVATE_KEY_KEY = 'privateKey';
 
+// Storage backend (OS keychain or encrypted keystore file), resolved once per run
+let secretStore: Promise<SecretStore> | null = null;
+export const getSecretStore = (): Promise<SecretStore> => {
+  if (!secretStore) {
+    secretStore = resolveSecretStore(SERVICE_NAME);
+  }
+  return secretStore;
+};
+
+const store = {
+  getPassword: async (service: string, account: string) => (await getSecretStore()).getPassword(service, account),
+  setPassword: async (service: string, account: string, password: string) =>
+    (await getSecretStore()).setPassword(service, account, password),
+  deletePassword: async (service: string, account: string) => (await getSecretStore()).deletePassword(service, account),
+};
+
 // Wallet list management
 export const getAllWallets = async (): Promise<WalletInfo[]> => {
-  const walletsJson = await keytar.getPassword(SERVICE_NAME, WALLETS_KEY);
+  const walletsJson = await store.getPassword(SERVICE_NAME, WALLETS_KEY);
   return walletsJson ? JSON.parse(walletsJson) : [];
 };
 
 export const saveWallets = async (wallets: WalletInfo[]): Promise<void> => {
-  await keytar.setPassword(SERVICE_NAME, WALLETS_KEY, JSON.stringify(wallets));
+  await store.setPassword(SERVICE_NAME, WALLETS_KEY, JSON.stringify(wallets));
 };
 
 // Active wallet management
 export const getActiveWallet = async (): Promise<WalletInfo | null> => {
-  const activeWalletJson = await keytar.getPassword(SERVICE_NAME, ACTIVE_WALLET_KEY);
+  const activeWalletJson = await store.getPassword(SERVICE_NAME, ACTIVE_WALLET_KEY);
   return activeWalletJson ? JSON.parse(activeWalletJson) : null;
 };
 
 export const setActiveWallet = async (wallet: WalletInfo): Promise<void> => {
-  await keytar.setPassword(SERVICE_NAME, ACTIVE_WALLET_KEY, JSON.stringify(wallet));
+  await store.setPassword(SERVICE_NAME, ACTIVE_WALLET_KEY, JSON.stringify(wallet));
 };
 
 export const clearActiveWallet = async (): Promise<void> => {
-  await keytar.deletePassword(SERVICE_NAME, ACTIVE_WALLET_KEY);
+  await store.deletePassword(SERVICE_NAME, ACTIVE_WALLET_KEY);
 };
 
 // Private key management
 export const getPrivateKey = async (address: string): Promise<string | null> => {
-  return await keytar.getPassword(SERVICE_NAME, `privateKey_${address}`);
+  return await store.getPassword(SERVICE_NAME, `privateKey_${address}`);
 };
 
 export const setPrivateKey = async (address: string, encryptedKey: string): Promise<void> => {
-  await keytar.setPassword(SERVICE_NAME, `privateKey_${address}`, encryptedKey);
+  await store.setPassword(SERVICE_NAME, `privateKey_${address}`, encryptedKey);
 };
 
 export const deletePrivateKey = async (address: string): Promise<void> => {
-  await keytar.deletePassword(SERVICE_NAME, `privateKey_${address}`);
+  await store.deletePassword(SERVICE_NAME, `privateKey_${address}`);
+};
+
+// Mnemonic management (HD wallets), stored under the wallet's first address
+export const getMnemonic = async (address: string): Promise<string | null> => {
+  return await store.getPassword(SERVICE_NAME, `mnemonic_${address}`);
+};
+
+export const setMnemonic = async (address: string, encryptedMnemonic: string): Promise<void> => {
+  await store.setPassword(SERVICE_NAME, `mnemonic_${address}`, encryptedMnemonic);
+};
+
+export const deleteMnemonic = async (address: string): Promise<void> => {
+  await store.deletePassword(SERVICE_NAME, `mnemonic_${address}`);
+};
+
+export type WalletSecrets = {
+  address: string;
+  privateKey: string; // encrypted
+  mnemonic?: string; // encrypted, HD wallets only
+};
+
+// Stores the key and recovery phrase ciphertexts of several wallets as one change. The file keystore saves them in a
+// single write; with the OS keychain, entries already replaced are restored if a later write fails.
+export const replaceWalletSecrets = async (updates: WalletSecrets[]): Promise<void> => {
+  const secrets: Record<string, string> = {};
+  updates.forEach((update) => {
+    secrets[`privateKey_${update.address}`] = update.privateKey;
+    if (update.mnemonic) {
+      secrets[`mnemonic_${update.address}`] = update.mnemonic;
+    }
+  });
+
+  const backend = await getSecretStore();
+  if (backend.setPasswords) {
+    await backend.setPasswords(SERVICE_NAME, secrets);
+    return;
+  }
+
+  const previous: [string, string | null][] = [];
+  try {
+    for (const [account, value] of Object.entries(secrets)) {
+      previous.push([account, await backend.getPassword(SERVICE_NAME, account)]);
+      await backend.setPassword(SERVICE_NAME, account, value);
+    }
+  } catch (error) {
+    for (const [account, value] of previous.reverse()) {
+      try {
+        if (value === null) {
+          await backend.deletePassword(SERVICE_NAME, account);
+        } else {
+          await backend.setPassword(SERVICE_NAME, account, value);
+        }
+      } catch (restoreError) {
+        // Keep restoring the others; the original error is what gets reported
+      }
+    }
+    throw error;
+  }
+};
+
+// Every address a wallet can receive on (and spend from); single-key wallets have just one
+export const getWalletAddresses = (wallet: WalletInfo): string[] => {
+  return wallet.hd ? wallet.hd.addresses.map((a) => a.address) : [wallet.address];
 };
 
 // Legacy wallet management - Used for migrating from single wallet to multiple wallets
 export const getLegacyWallet = async (): Promise<{ address: string | null; privateKey: string | null }> => {
   const [address, privateKey] = await Promise.all([
-    keytar.getPassword(SERVICE_NAME, LEGACY_WALLET_ADDRESS_KEY),
-    keytar.getPassword(SERVICE_NAME, LEGACY_PRIVATE_KEY_KEY),
+    store.getPassword(SERVICE_NAME, LEGACY_WALLET_ADDRESS_KEY),
+    store.getPassword(SERVICE_NAME, LEGACY_PRIVATE_KEY_KEY),
   ]);
   return { address, privateKey };
 };
 
 export const deleteLegacyWallet = async (): Promise<void> => {
   await Promise.all([
-    keytar.deletePassword(SERVICE_NAME, LEGACY_WALLET_ADDRESS_KEY),
-    keytar.deletePassword(SERVICE_NAME, LEGACY_PRIVATE_KEY_KEY),
+    store.deletePassword(SERVICE_NAME, LEGACY_WALLET_ADDRESS_KEY),
+    store.deletePassword(SERVICE_NAME, LEGACY_PRIVATE_KEY_KEY),
   ]);
 };
 
@@ -0,0 +1,58 @@
+// Machine-readable output for the global --json flag. In JSON mode each command prints exactly one JSON
+// document to stdout; spinners, animations and prompts are kept off stdout.
+
+export type ErrorCode =
+  | 'NO_ACTIVE_WALLET'
+  | 'NO_WALLETS'
+  | 'WALLET_NOT_FOUND'
+  | 'CONTACT_NOT_FOUND'
+  | 'WEBHOOK_NOT_FOUND'
+  | 'NO_WEBHOOKS'
+  | 'PROFILE_NOT_FOUND'
+  | 'INVALID_AMOUNT'
+  | 'INVALID_ADDRESS'
+  | 'INVALID_FILE'
+  | 'INVALID_DATE'
+  | 'INVALID_INPUT'
+  | 'MISSING_INPUT'
+  | 'CANCELLED'
+  | 'KEY_NOT_FOUND'
+  | 'WATCH_ONLY'
+  | 'INVALID_PASSWORD'
+  | 'NOT_LOGGED_IN'
+  | 'SESSION_EXPIRED'
+  | 'SANDBOX_ONLY'
+  | 'ADDRESS_FROZEN'
+  | 'TRANSFER_FAILED'
+  | 'TRANSFER_UNCONFIRMED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'WALLET_LOCKED'
+  | 'SPEND_LIMIT_EXCEEDED'
+  | 'UNAUTHORIZED'
+  | 'UNKNOWN_ENDPOINT'
+  | 'REQUEST_FAILED';
+
+export interface JsonError {
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: Record<string, unknown>;
+  };
+}
+
+let jsonOutput = false;
+
+export const setJsonOutput = (enabled: boolean) => {
+  jsonOutput = enabled;
+};
+
+export const isJsonOutput = (): boolean => jsonOutput;
+
+export const printJson = (data: unknown) => {
+  console.log(JSON.stringify(data, null, 2));
+};
+
+export const printJsonError = (code: ErrorCode, message: string, details?: Record<string, unknown>) => {
+  const payload: JsonError = { error: { code, message, details } };
+  printJson(payload);
+};
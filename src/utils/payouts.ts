@@ -0,0 +1,120 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export interface PayoutRow {
+  row: number; // 1-based line (CSV) or entry (JSON) number, for error messages and the report
+  address: string;
+  amount: string;
+  label?: string;
+}
+
+export interface PayoutResult extends PayoutRow {
+  status: string;
+  ticketId: string | null;
+  txid: string | null;
+  error: string | null;
+}
+
+const isJsonFile = (file: string) => path.extname(file).toLowerCase() === '.json';
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+const parseCsv = (content: string): PayoutRow[] => {
+  const lines = content.split(/\r?\n/);
+  const rows: PayoutRow[] = [];
+  let columns = { address: 0, amount: 1, label: 2 };
+
+  lines.forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const cells = splitCsvLine(line);
+    const lowered = cells.map((c) => c.toLowerCase());
+
+    // An optional header row names the columns; without one the order is address,amount[,label]
+    if (rows.length === 0 && lowered.includes('address') && lowered.includes('amount')) {
+      columns = {
+        address: lowered.indexOf('address'),
+        amount: lowered.indexOf('amount'),
+        label: lowered.indexOf('label'),
+      };
+      return;
+    }
+
+    rows.push({
+      row: index + 1,
+      address: cells[columns.address] || '',
+      amount: cells[columns.amount] || '',
+      label: columns.label >= 0 ? cells[columns.label] || undefined : undefined,
+    });
+  });
+
+  return rows;
+};
+
+const parseJson = (content: string): PayoutRow[] => {
+  const data = JSON.parse(content);
+  const entries = Array.isArray(data) ? data : data?.recipients;
+
+  if (!Array.isArray(entries)) {
+    throw new Error('JSON payout files must contain an array of { address, amount } objects');
+  }
+
+  return entries.map((entry: any, index: number) => ({
+    row: index + 1,
+    address: String(entry?.address ?? ''),
+    amount: String(entry?.amount ?? ''),
+    label: entry?.label !== undefined ? String(entry.label) : undefined,
+  }));
+};
+
+export const readPayoutFile = async (file: string): Promise<PayoutRow[]> => {
+  const content = await fs.readFile(file, 'utf-8');
+  return isJsonFile(file) ? parseJson(content) : parseCsv(content);
+};
+
+export const defaultReportPath = (file: string): string => {
+  const ext = path.extname(file) || '.csv';
+  return path.join(path.dirname(file), `${path.basename(file, path.extname(file))}.report${ext}`);
+};
+
+// Quotes a CSV field when it contains a quote, comma or newline
+export const csvCell = (value: string | number | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const writePayoutReport = async (file: string, results: PayoutResult[]): Promise<void> => {
+  if (isJsonFile(file)) {
+    await fs.writeFile(file, JSON.stringify(results, null, 2));
+    return;
+  }
+
+  const header = ['row', 'address', 'amount', 'label', 'status', 'ticketId', 'txid', 'error'];
+  const lines = results.map((r) =>
+    [r.row, r.address, r.amount, r.label, r.status, r.ticketId, r.txid, r.error].map(csvCell).join(','),
+  );
+  await fs.writeFile(file, [header.join(','), ...lines].join('\n') + '\n');
+};
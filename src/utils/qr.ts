@@ -0,0 +1,404 @@
+import chalk from 'chalk';
+import { promises as fs } from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+
+// QR codes for `mnee address --qr` and `mnee request`. A small encoder for what the CLI needs: byte mode, error
+// correction level M and versions 1-15 (up to 412 bytes), which fits any address or payment URI with a short memo.
+
+// true = dark module, indexed [row][column]
+export type QrMatrix = boolean[][];
+
+// Level M block structure per version: error correction codewords per block, then [block count, data codewords]
+// for each group
+const BLOCKS: [number, [number, number], [number, number]?][] = [
+  [10, [1, 16]],
+  [16, [1, 28]],
+  [26, [1, 44]],
+  [18, [2, 32]],
+  [24, [2, 43]],
+  [16, [4, 27]],
+  [18, [4, 31]],
+  [22, [2, 38], [2, 39]],
+  [22, [3, 36], [2, 37]],
+  [26, [4, 43], [1, 44]],
+  [30, [1, 50], [4, 51]],
+  [22, [6, 36], [2, 37]],
+  [22, [8, 37], [1, 38]],
+  [24, [4, 40], [5, 41]],
+  [24, [5, 41], [5, 42]],
+];
+
+// Row/column centres of the alignment patterns per version
+const ALIGNMENT: number[][] = [
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+  [6, 30, 54],
+  [6, 32, 58],
+  [6, 34, 62],
+  [6, 26, 46, 66],
+  [6, 26, 48, 70],
+];
+
+const EC_LEVEL_M = 0b00;
+const QUIET_ZONE = 4;
+const TERMINAL_QUIET_ZONE = 2;
+
+// GF(256) multiplication with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMul = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const reedSolomonRemainder = (data: number[], degree: number): number[] => {
+  // Generator polynomial (x - 2^0)(x - 2^1)...(x - 2^(degree-1)), highest term dropped
+  const divisor = new Array<number>(degree).fill(0);
+  divisor[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      divisor[j] = gfMul(divisor[j], root);
+      if (j + 1 < degree) {
+        divisor[j] ^= divisor[j + 1];
+      }
+    }
+    root = gfMul(root, 0x02);
+  }
+
+  const result = new Array<number>(degree).fill(0);
+  data.forEach((byte) => {
+    const factor = byte ^ result.shift()!;
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMul(coefficient, factor);
+    });
+  });
+  return result;
+};
+
+const dataCodewords = (version: number): number => {
+  const [, group1, group2] = BLOCKS[version - 1];
+  return group1[0] * group1[1] + (group2 ? group2[0] * group2[1] : 0);
+};
+
+// Byte-mode bit stream, padded to the version's capacity, split into blocks with their error correction, interleaved
+const encodeCodewords = (bytes: Buffer, version: number): number[] => {
+  const capacity = dataCodewords(version);
+  const bits: number[] = [];
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach((byte) => push(byte, 8));
+  push(0, Math.min(4, capacity * 8 - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(parseInt(bits.slice(i, i + 8).join(''), 2));
+  }
+  for (let pad = 0xec; data.length < capacity; pad ^= 0xec ^ 0x11) {
+    data.push(pad);
+  }
+
+  const [ecPerBlock, group1, group2] = BLOCKS[version - 1];
+  const blocks: number[][] = [];
+  let offset = 0;
+  [group1, group2].forEach((group) => {
+    for (let i = 0; group && i < group[0]; i++) {
+      blocks.push(data.slice(offset, offset + group[1]));
+      offset += group[1];
+    }
+  });
+  const ecBlocks = blocks.map((block) => reedSolomonRemainder(block, ecPerBlock));
+
+  const result: number[] = [];
+  const longest = Math.max(...blocks.map((block) => block.length));
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach((block) => i < block.length && result.push(block[i]));
+  }
+  for (let i = 0; i < ecPerBlock; i++) {
+    ecBlocks.forEach((block) => result.push(block[i]));
+  }
+  return result;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Penalty score from the specification, used to pick the mask that is easiest to scan
+const penalty = (modules: QrMatrix): number => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [
+    ...modules,
+    ...modules.map((_, x) => modules.map((row) => row[x])), // columns
+  ];
+
+  lines.forEach((line) => {
+    // Runs of five or more modules of one colour
+    let run = 1;
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    // Finder-like 1:1:3:1:1 patterns with four light modules on one side
+    const text = line.map((dark) => (dark ? '1' : '0')).join('');
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let i = text.indexOf(pattern); i !== -1; i = text.indexOf(pattern, i + 1)) {
+        score += 40;
+      }
+    }
+  });
+
+  // 2x2 blocks of one colour
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const colour = modules[y][x];
+      if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) {
+        score += 3;
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const dark = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  const total = size * size;
+  score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+  return score;
+};
+
+const buildMatrix = (codewords: number[], version: number, mask: number): QrMatrix => {
+  const size = version * 4 + 17;
+  const modules: QrMatrix = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserved: boolean[][] = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const set = (x: number, y: number, dark: boolean) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  // Timing patterns, then finders with their separators, then alignment patterns
+  for (let i = 0; i < size; i++) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ].forEach(([cx, cy]) => {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  });
+  const positions = ALIGNMENT[version - 1];
+  const last = positions.length - 1;
+  positions.forEach((cy, i) =>
+    positions.forEach((cx, j) => {
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }),
+  );
+
+  // Format information: level and mask, BCH(15,5) protected, in both copies, plus the dark module
+  const format = (EC_LEVEL_M << 3) | mask;
+  let remainder = format;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  const formatBits = ((format << 10) | remainder) ^ 0x5412;
+  const formatBit = (i: number) => ((formatBits >>> i) & 1) === 1;
+  for (let i = 0; i <= 5; i++) set(8, i, formatBit(i));
+  set(8, 7, formatBit(6));
+  set(8, 8, formatBit(7));
+  set(7, 8, formatBit(8));
+  for (let i = 9; i < 15; i++) set(14 - i, 8, formatBit(i));
+  for (let i = 0; i < 8; i++) set(size - 1 - i, 8, formatBit(i));
+  for (let i = 8; i < 15; i++) set(8, size - 15 + i, formatBit(i));
+  set(8, size - 8, true);
+
+  // Version information, BCH(18,6) protected, for version 7 and up
+  if (version >= 7) {
+    let versionRemainder = version;
+    for (let i = 0; i < 12; i++) versionRemainder = (versionRemainder << 1) ^ ((versionRemainder >>> 11) * 0x1f25);
+    const versionBits = (version << 12) | versionRemainder;
+    for (let i = 0; i < 18; i++) {
+      const dark = ((versionBits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+
+  // Codewords fill two-column strips from the right, alternating upwards and downwards, skipping the timing column
+  let bit = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((right + 1) & 2) === 0;
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j;
+        const y = upward ? size - 1 - vertical : vertical;
+        if (!reserved[y][x] && bit < codewords.length * 8) {
+          modules[y][x] = ((codewords[bit >>> 3] >>> (7 - (bit & 7))) & 1) === 1;
+          bit++;
+        }
+      }
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!reserved[y][x] && MASKS[mask](x, y)) modules[y][x] = !modules[y][x];
+    }
+  }
+  return modules;
+};
+
+export const createQr = (text: string): QrMatrix => {
+  const bytes = Buffer.from(text, 'utf-8');
+  const version =
+    BLOCKS.findIndex((_, i) => 4 + (i + 1 < 10 ? 8 : 16) + bytes.length * 8 <= dataCodewords(i + 1) * 8) + 1;
+  if (version === 0) {
+    throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`);
+  }
+
+  const codewords = encodeCodewords(bytes, version);
+  let best: QrMatrix | null = null;
+  let bestScore = Infinity;
+  MASKS.forEach((_, mask) => {
+    const matrix = buildMatrix(codewords, version, mask);
+    const score = penalty(matrix);
+    if (score < bestScore) {
+      best = matrix;
+      bestScore = score;
+    }
+  });
+  return best!;
+};
+
+const isDark = (qr: QrMatrix, row: number, column: number): boolean =>
+  row >= 0 && column >= 0 && row < qr.length && column < qr.length && qr[row][column];
+
+// Two module rows per line of text using half blocks. With colour the code is drawn dark-on-light whatever the
+// terminal theme; without it the light modules are drawn, which suits the usual dark terminal background.
+export const renderQrTerminal = (qr: QrMatrix): string => {
+  const lines: string[] = [];
+  const start = -TERMINAL_QUIET_ZONE;
+  const end = qr.length + TERMINAL_QUIET_ZONE;
+  for (let row = start; row < end; row += 2) {
+    let line = '';
+    for (let column = start; column < end; column++) {
+      const top = isDark(qr, row, column);
+      const bottom = row + 1 < end && isDark(qr, row + 1, column);
+      if (chalk.level > 0) {
+        line += (top ? chalk.black : chalk.whiteBright)[bottom ? 'bgBlack' : 'bgWhiteBright']('▀');
+      } else {
+        line += top ? (bottom ? ' ' : '▄') : bottom ? '▀' : '█';
+      }
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
+
+const toSvg = (qr: QrMatrix): string => {
+  const size = qr.length + QUIET_ZONE * 2;
+  const d = qr
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')))
+    .join('');
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${size} ${size}" shape-rendering="crispEdges">` +
+    `<rect width="${size}" height="${size}" fill="#fff"/><path d="${d}" fill="#000"/></svg>\n`
+  );
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (data: Buffer): number => {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+};
+
+// 8-bit greyscale PNG, `scale` pixels per module
+const toPng = (qr: QrMatrix, scale = 8): Buffer => {
+  const size = (qr.length + QUIET_ZONE * 2) * scale;
+  const rows: Buffer[] = [];
+  for (let y = 0; y < size; y++) {
+    const row = Buffer.alloc(size + 1, 0xff);
+    row[0] = 0; // no filter
+    for (let x = 0; x < size; x++) {
+      if (isDark(qr, Math.floor(y / scale) - QUIET_ZONE, Math.floor(x / scale) - QUIET_ZONE)) row[x + 1] = 0;
+    }
+    rows.push(row);
+  }
+
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(size, 0);
+  header.writeUInt32BE(size, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // greyscale
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', zlib.deflateSync(Buffer.concat(rows))),
+    pngChunk('IEND', Buffer.alloc(0)),
+  ]);
+};
+
+// Writes a PNG or SVG depending on the file extension
+export const writeQrFile = async (file: string, qr: QrMatrix): Promise<void> => {
+  const extension = path.extname(file).toLowerCase();
+  if (extension === '.png') {
+    await fs.writeFile(file, toPng(qr));
+  } else if (extension === '.svg') {
+    await fs.writeFile(file, toSvg(qr));
+  } else {
+    throw new Error('Use a file name ending in .png or .svg');
+  }
+};
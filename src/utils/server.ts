@@ -0,0 +1,144 @@
+import crypto from 'crypto';
+import http from 'http';
+import type { ErrorCode, JsonError } from './output.js';
+
+// Plumbing for `mnee serve`: bearer auth, JSON bodies and route matching. The handlers live in cli.ts.
+
+// Thrown by handlers to answer with a JSON error in the same shape as --json errors
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    public code: ErrorCode,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export interface ApiRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, any>;
+}
+
+export type ApiHandler = (req: ApiRequest) => Promise<unknown>;
+
+// Keys are "<METHOD> <path>"; path segments starting with ":" are captured into params
+export type ApiRoutes = Record<string, ApiHandler>;
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export const generateApiToken = (): string => crypto.randomBytes(32).toString('base64url');
+
+// Compares digests so the comparison takes the same time whatever the token length
+const tokenMatches = (given: string, expected: string): boolean =>
+  crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(given).digest(),
+    crypto.createHash('sha256').update(expected).digest(),
+  );
+
+const matchRoute = (
+  routes: ApiRoutes,
+  method: string,
+  pathname: string,
+): { handler: ApiHandler; params: Record<string, string> } | null => {
+  const segments = pathname.split('/').filter(Boolean);
+  for (const [key, handler] of Object.entries(routes)) {
+    const [routeMethod, routePath] = key.split(' ');
+    const routeSegments = routePath.split('/').filter(Boolean);
+    if (routeMethod !== method || routeSegments.length !== segments.length) continue;
+
+    const params: Record<string, string> = {};
+    const matches = routeSegments.every((segment, i) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(segments[i]);
+        return true;
+      }
+      return segment === segments[i];
+    });
+    if (matches) return { handler, params };
+  }
+  return null;
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Record<string, any>> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError(413, 'INVALID_INPUT', 'Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8').trim();
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        const body = JSON.parse(text);
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          throw new Error('not an object');
+        }
+        resolve(body);
+      } catch (error) {
+        reject(new ApiError(400, 'INVALID_INPUT', 'Request body must be a JSON object'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const sendJson = (res: http.ServerResponse, status: number, data: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(data));
+};
+
+export const startApiServer = (options: {
+  host: string;
+  port: number;
+  token: string;
+  routes: ApiRoutes;
+  onRequest?: (method: string, path: string, status: number) => void;
+}): Promise<http.Server> => {
+  const server = http.createServer(async (req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const method = req.method || 'GET';
+    let status = 200;
+
+    try {
+      const auth = req.headers.authorization || '';
+      if (!auth.startsWith('Bearer ') || !tokenMatches(auth.slice('Bearer '.length), options.token)) {
+        throw new ApiError(401, 'UNAUTHORIZED', 'Missing or invalid bearer token');
+      }
+
+      const route = matchRoute(options.routes, method, url.pathname);
+      if (!route) {
+        throw new ApiError(404, 'UNKNOWN_ENDPOINT', `No endpoint ${method} ${url.pathname}`);
+      }
+
+      const body = method === 'POST' ? await readBody(req) : {};
+      const result = await route.handler({ params: route.params, query: url.searchParams, body });
+      sendJson(res, status, result);
+    } catch (error) {
+      const apiError =
+        error instanceof ApiError
+          ? error
+          : new ApiError(500, 'REQUEST_FAILED', (error as Error)?.message || 'Unknown error');
+      status = apiError.status;
+      const payload: JsonError = { error: { code: apiError.code, message: apiError.message } };
+      sendJson(res, status, payload);
+    }
+
+    options.onRequest?.(method, url.pathname, status);
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => resolve(server));
+  });
+};
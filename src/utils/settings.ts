@@ -0,0 +1,127 @@
+import type { CliConfig } from './auth.js';
+
+// Schema for `mnee config`. Profile settings are stored on the selected profile, global ones at the top level of
+// config.json.
+export type SettingScope = 'profile' | 'global';
+
+export interface Setting {
+  key: string;
+  field: keyof CliConfig;
+  scope: SettingScope;
+  type: 'enum' | 'number' | 'url' | 'address' | 'string';
+  values?: string[];
+  min?: number;
+  secret?: boolean;
+  description: string;
+}
+
+export const SETTINGS: Setting[] = [
+  {
+    key: 'environment',
+    field: 'environment',
+    scope: 'profile',
+    type: 'enum',
+    values: ['sandbox', 'production'],
+    description: 'Default environment for new and imported wallets',
+  },
+  {
+    key: 'api-url',
+    field: 'apiUrl',
+    scope: 'profile',
+    type: 'url',
+    description: 'Developer portal API URL',
+  },
+  {
+    key: 'mnee-api-key',
+    field: 'mneeApiKey',
+    scope: 'profile',
+    type: 'string',
+    secret: true,
+    description: 'MNEE API key passed to the SDK',
+  },
+  {
+    key: 'default-address',
+    field: 'defaultAddress',
+    scope: 'global',
+    type: 'address',
+    description: 'Faucet deposit address used instead of the active wallet',
+  },
+  {
+    key: 'keystore',
+    field: 'keystore',
+    scope: 'global',
+    type: 'enum',
+    values: ['auto', 'keychain', 'file'],
+    description: 'Wallet storage backend (MNEE_KEYSTORE overrides it)',
+  },
+  {
+    key: 'poll-interval',
+    field: 'pollInterval',
+    scope: 'global',
+    type: 'number',
+    min: 1,
+    description: 'Seconds between polls for watch and daemon',
+  },
+  {
+    key: 'output-format',
+    field: 'outputFormat',
+    scope: 'global',
+    type: 'enum',
+    values: ['text', 'json'],
+    description: 'Default output format; json behaves like --json',
+  },
+  {
+    key: 'color',
+    field: 'color',
+    scope: 'global',
+    type: 'enum',
+    values: ['auto', 'always', 'never'],
+    description: 'Colour output (auto follows the terminal and NO_COLOR)',
+  },
+];
+
+export const findSetting = (key: string): Setting | undefined => SETTINGS.find((s) => s.key === key.toLowerCase());
+
+// Checks a command-line value against the setting's schema and converts it to the stored type. Addresses are
+// only checked for emptiness here; the caller validates them like any other address.
+export const parseSettingValue = (setting: Setting, input: string): { value: string | number } | { error: string } => {
+  const value = input.trim();
+  if (!value) {
+    return { error: `${setting.key} cannot be empty` };
+  }
+
+  switch (setting.type) {
+    case 'enum':
+      return setting.values!.includes(value.toLowerCase())
+        ? { value: value.toLowerCase() }
+        : { error: `${setting.key} must be one of: ${setting.values!.join(', ')}` };
+    case 'number': {
+      const num = Number(value);
+      if (!Number.isFinite(num) || (setting.min !== undefined && num < setting.min)) {
+        return { error: `${setting.key} must be a number of at least ${setting.min}` };
+      }
+      return { value: num };
+    }
+    case 'url':
+      try {
+        const url = new URL(value);
+        if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+          return { error: `${setting.key} must be an http(s) URL` };
+        }
+        return { value: value.replace(/\/+$/, '') };
+      } catch (error) {
+        return { error: `${setting.key} must be an http(s) URL` };
+      }
+    default:
+      return { value };
+  }
+};
+
+// Secrets are shown with only their last four characters
+export const formatSettingValue = (setting: Setting, value: unknown): string => {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  return setting.secret ? `${'•'.repeat(8)}${text.slice(-4)}` : text;
+};
@@ -0,0 +1,140 @@
+import crypto from 'crypto';
+
+// Shamir secret sharing over GF(256) for `mnee export --shares` and `mnee import --shares`. Each byte of the secret
+// is the constant term of its own random polynomial of degree threshold - 1; share i holds the polynomials
+// evaluated at x = i, and any `threshold` shares rebuild the secret by Lagrange interpolation at x = 0.
+//
+// Shares are written as text, one per line:
+//   mnee-share:v1:<set id>:<threshold>:<index>/<total>:<address>:<data hex>:<checksum>
+// The set id ties shares of one split together, the address lets the importer check the rebuilt key, and the
+// checksum (first 4 bytes of sha256 over everything before it) catches typos in a single share.
+
+export interface KeyShare {
+  setId: string;
+  threshold: number;
+  index: number;
+  total: number;
+  address: string;
+  data: Buffer;
+}
+
+const SHARE_PREFIX = 'mnee-share';
+const SHARE_VERSION = 'v1';
+export const MAX_SHARES = 255;
+
+// Log and exp tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1 and generator 3
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+for (let i = 0, x = 1; i < 255; i++) {
+  EXP[i] = x;
+  LOG[x] = i;
+  x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+}
+for (let i = 255; i < 510; i++) {
+  EXP[i] = EXP[i - 255];
+}
+
+const mul = (a: number, b: number): number => (a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]]);
+const div = (a: number, b: number): number => (a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]]);
+
+const checksum = (body: string): string => crypto.createHash('sha256').update(body).digest('hex').slice(0, 8);
+
+export const splitSecret = (secret: Buffer, total: number, threshold: number): Buffer[] => {
+  const shares = Array.from({ length: total }, () => Buffer.alloc(secret.length));
+  for (let byte = 0; byte < secret.length; byte++) {
+    const coefficients = [secret[byte], ...crypto.randomBytes(threshold - 1)];
+    for (let i = 0; i < total; i++) {
+      const x = i + 1;
+      // Horner's rule, highest coefficient first
+      let y = 0;
+      for (let c = coefficients.length - 1; c >= 0; c--) {
+        y = mul(y, x) ^ coefficients[c];
+      }
+      shares[i][byte] = y;
+    }
+  }
+  return shares;
+};
+
+export const combineSecret = (shares: { index: number; data: Buffer }[]): Buffer => {
+  const secret = Buffer.alloc(shares[0].data.length);
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      // Lagrange basis polynomial for this share, evaluated at x = 0
+      let basis = 1;
+      shares.forEach((other, j) => {
+        if (i !== j) {
+          basis = mul(basis, div(other.index, other.index ^ share.index));
+        }
+      });
+      value ^= mul(share.data[byte], basis);
+    });
+    secret[byte] = value;
+  }
+  return secret;
+};
+
+export const encodeShare = (share: KeyShare): string => {
+  const body = [
+    SHARE_PREFIX,
+    SHARE_VERSION,
+    share.setId,
+    share.threshold,
+    `${share.index}/${share.total}`,
+    share.address,
+    share.data.toString('hex'),
+  ].join(':');
+  return `${body}:${checksum(body)}`;
+};
+
+export const decodeShare = (text: string): KeyShare => {
+  const parts = text.trim().split(':');
+  if (parts.length !== 8 || parts[0] !== SHARE_PREFIX) {
+    throw new Error('Not an MNEE key share');
+  }
+  if (parts[1] !== SHARE_VERSION) {
+    throw new Error(`Unsupported share version ${parts[1]}`);
+  }
+  if (checksum(parts.slice(0, 7).join(':')) !== parts[7].toLowerCase()) {
+    throw new Error('Checksum mismatch. Check the share for typos');
+  }
+
+  const [index, total] = parts[4].split('/').map(Number);
+  const threshold = Number(parts[3]);
+  if (
+    !Number.isInteger(index) ||
+    !Number.isInteger(total) ||
+    !Number.isInteger(threshold) ||
+    index < 1 ||
+    index > total ||
+    threshold < 2 ||
+    threshold > total
+  ) {
+    throw new Error('Invalid share index or threshold');
+  }
+
+  return { setId: parts[2], threshold, index, total, address: parts[5], data: Buffer.from(parts[6], 'hex') };
+};
+
+export const splitKey = (key: Buffer, address: string, total: number, threshold: number): string[] => {
+  const setId = crypto.randomBytes(4).toString('hex');
+  return splitSecret(key, total, threshold).map((data, i) =>
+    encodeShare({ setId, threshold, index: i + 1, total, address, data }),
+  );
+};
+
+// Checks that a new share belongs with the ones collected so far; returns why not, or null
+export const checkShareFits = (collected: KeyShare[], share: KeyShare): string | null => {
+  const first = collected[0];
+  if (!first) {
+    return null;
+  }
+  if (share.setId !== first.setId || share.address !== first.address) {
+    return `This share belongs to a different split (set ${share.setId}, expected ${first.setId})`;
+  }
+  if (collected.some((s) => s.index === share.index)) {
+    return `Share ${share.index} was already entered`;
+  }
+  return null;
+};
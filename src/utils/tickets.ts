@@ -0,0 +1,41 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './auth.js';
+import type { WalletEnvironment } from './keytar.js';
+
+// Tickets submitted by this CLI that have not reached a final status yet, so `mnee daemon` can report the ones
+// that fail even when the submitting command stopped waiting
+const TICKETS_FILE = path.join(CONFIG_DIR, 'tickets.json');
+// Tickets still broadcasting after this long are no longer followed
+export const TICKET_TRACKING_MS = 24 * 60 * 60 * 1000;
+
+export interface PendingTicket {
+  ticketId: string;
+  wallet: string;
+  environment: WalletEnvironment;
+  submittedAt: string;
+}
+
+export const loadPendingTickets = async (): Promise<PendingTicket[]> => {
+  try {
+    const data = JSON.parse(await fs.readFile(TICKETS_FILE, 'utf-8'));
+    return Array.isArray(data?.tickets) ? data.tickets : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+export const savePendingTickets = async (tickets: PendingTicket[]): Promise<void> => {
+  await ensureConfigDir();
+  await fs.writeFile(TICKETS_FILE, JSON.stringify({ tickets }, null, 2));
+};
+
+export const trackTicket = async (ticketId: string, wallet: string, environment: WalletEnvironment): Promise<void> => {
+  try {
+    const tickets = await loadPendingTickets();
+    tickets.push({ ticketId, wallet, environment, submittedAt: new Date().toISOString() });
+    await savePendingTickets(tickets);
+  } catch (error) {
+    // Tracking only feeds webhook notifications; the transfer itself is unaffected
+  }
+};
@@ -0,0 +1,162 @@
+import { OP, Transaction, Utils } from '@bsv/sdk';
+import type { ScriptChunk } from '@bsv/sdk';
+import { promises as fs } from 'fs';
+import type Mnee from '@mnee/ts-sdk';
+import type { SendMNEE, SignatureRequest } from '@mnee/ts-sdk';
+import type { WalletEnvironment } from './keytar.js';
+
+// Transaction file shared by `mnee tx build`, `mnee tx sign` and `mnee tx broadcast`:
+// - build (online, watch-only) writes stage "unsigned": the transaction hex with empty unlocking scripts plus one
+//   signature request per input (source script and satoshis), so the signer never needs network access.
+// - sign (offline) fills in the unlocking scripts, replaces `rawtx` and moves the file to stage "signed".
+// - broadcast (online) submits `rawtx` and records the ticket, final status and txid under stage "broadcast".
+export type TxFileStage = 'unsigned' | 'signed' | 'broadcast';
+
+export interface TxFile {
+  format: 'mnee-tx';
+  version: 1;
+  stage: TxFileStage;
+  environment: WalletEnvironment;
+  from: string; // address whose UTXOs are spent and which receives the change
+  recipients: SendMNEE[];
+  total: number;
+  fee: number;
+  createdAt: string;
+  rawtx: string;
+  sigRequests: SignatureRequest[];
+  signedAt?: string;
+  ticketId?: string;
+  status?: string;
+  txid?: string | null;
+  broadcastAt?: string;
+}
+
+export const TX_FILE_FORMAT = 'mnee-tx';
+export const TX_FILE_VERSION = 1;
+
+export const readTxFile = async (file: string): Promise<TxFile> => {
+  const data = JSON.parse(await fs.readFile(file, 'utf-8'));
+
+  if (data?.format !== TX_FILE_FORMAT || data?.version !== TX_FILE_VERSION) {
+    throw new Error(`${file} is not a version ${TX_FILE_VERSION} MNEE transaction file`);
+  }
+  if (typeof data.rawtx !== 'string' || !Array.isArray(data.sigRequests) || !Array.isArray(data.recipients)) {
+    throw new Error(`${file} is missing rawtx, sigRequests or recipients`);
+  }
+
+  return data as TxFile;
+};
+
+export const writeTxFile = async (file: string, data: TxFile): Promise<void> => {
+  await fs.writeFile(file, JSON.stringify(data, null, 2) + '\n');
+};
+
+// An MNEE output decoded from the transaction itself; amount is in atomic units
+export interface TransferOutput {
+  address: string;
+  amount: number;
+}
+
+export interface CheckedTransfer {
+  recipients: TransferOutput[];
+  fee: TransferOutput | null;
+  change: number;
+}
+
+// Content of the "ord" inscription envelope (OP_FALSE OP_IF "ord" <tag> <value>... OP_ENDIF), where tag 0 holds
+// the file content. Mirrors the SDK's parseInscription, which is typed against its own bundled @bsv/sdk.
+const readInscriptionContent = (chunks: ScriptChunk[]): number[] | null => {
+  const start = chunks.findIndex(
+    (chunk, i) =>
+      i >= 2 &&
+      chunk.data?.length === 3 &&
+      Utils.toUTF8(chunk.data) === 'ord' &&
+      chunks[i - 1].op === OP.OP_IF &&
+      chunks[i - 2].op === OP.OP_FALSE,
+  );
+  if (start === -1) {
+    return null;
+  }
+  for (let i = start + 1; i + 1 < chunks.length && chunks[i].op !== OP.OP_ENDIF; i += 2) {
+    const tag = chunks[i];
+    const isContentTag = tag.op === OP.OP_0 || (tag.data?.length === 1 && tag.data[0] === 0);
+    if (isContentTag) {
+      return chunks[i + 1].data || null;
+    }
+  }
+  return null;
+};
+
+// Address of the cosigned lock (OP_DUP OP_HASH160 <pkh> OP_EQUALVERIFY OP_CHECKSIGVERIFY <approver> OP_CHECKSIG)
+const readCosignedAddress = (chunks: ScriptChunk[]): string | null => {
+  for (let i = 0; i + 6 < chunks.length; i++) {
+    if (
+      chunks[i].op === OP.OP_DUP &&
+      chunks[i + 1].op === OP.OP_HASH160 &&
+      chunks[i + 2].data?.length === 20 &&
+      chunks[i + 3].op === OP.OP_EQUALVERIFY &&
+      chunks[i + 4].op === OP.OP_CHECKSIGVERIFY &&
+      chunks[i + 5].data?.length === 33 &&
+      chunks[i + 6].op === OP.OP_CHECKSIG
+    ) {
+      return Utils.toBase58Check(chunks[i + 2].data!, [0]);
+    }
+  }
+  return null;
+};
+
+// Decodes the inscription amount and cosigner address of every output without network access. Throws when an
+// output is not an MNEE transfer.
+export const decodeTransferOutputs = (rawtx: string): TransferOutput[] =>
+  Transaction.fromHex(rawtx).outputs.map((output, i) => {
+    const { chunks } = output.lockingScript;
+    const content = readInscriptionContent(chunks);
+    const address = readCosignedAddress(chunks);
+    let inscription: { op?: string; amt?: string } | null = null;
+    try {
+      inscription = content ? JSON.parse(Utils.toUTF8(content)) : null;
+    } catch (error) {
+      // Not JSON, so not an MNEE transfer
+    }
+    const amount = Number(inscription?.amt);
+    if (!address || inscription?.op !== 'transfer' || !Number.isSafeInteger(amount) || amount <= 0) {
+      throw new Error(`Output ${i} is not an MNEE transfer`);
+    }
+    return { address, amount };
+  });
+
+// Matches the decoded outputs against the file: one output per recipient with the same address and amount, one fee
+// output of the stated fee (its address cannot be checked offline), and change back to the sending address.
+// Returns why they differ, or the decoded transfer.
+export const checkTransferOutputs = (
+  mnee: Mnee,
+  txFile: TxFile,
+  outputs: TransferOutput[],
+): CheckedTransfer | { error: string } => {
+  const remaining = [...outputs];
+  const recipients: TransferOutput[] = [];
+  for (const recipient of txFile.recipients) {
+    const amount = mnee.toAtomicAmount(recipient.amount);
+    const index = remaining.findIndex((o) => o.address === recipient.address && o.amount === amount);
+    if (index === -1) {
+      return { error: `The transaction does not pay ${recipient.amount} MNEE to ${recipient.address}` };
+    }
+    recipients.push(...remaining.splice(index, 1));
+  }
+
+  const change = remaining.filter((o) => o.address === txFile.from).reduce((sum, o) => sum + o.amount, 0);
+  const others = remaining.filter((o) => o.address !== txFile.from);
+  const feeAmount = mnee.toAtomicAmount(txFile.fee);
+  const fee = feeAmount > 0 ? others.find((o) => o.amount === feeAmount) : undefined;
+  if (feeAmount > 0 && !fee) {
+    return { error: `The transaction has no output for the ${txFile.fee} MNEE fee` };
+  }
+  const unexpected = others.find((o) => o !== fee);
+  if (unexpected) {
+    return {
+      error: `The transaction also pays ${mnee.fromAtomicAmount(unexpected.amount)} MNEE to ${unexpected.address}, which is not a recipient or the fee`,
+    };
+  }
+
+  return { recipients, fee: fee || null, change };
+};
@@ -4,11 +4,21 @@ import boxen from 'boxen';
 import figlet from 'figlet';
 import gradientString from 'gradient-string';
 import cliProgress from 'cli-progress';
+import { isJsonOutput } from './output.js';
 
 // Check if we should use colors (respects NO_COLOR env variable and terminal capabilities)
 // This helps ensure the CLI works well in various terminal environments
 const shouldUseColor = !process.env.NO_COLOR && process.stdout.isTTY;
 
+// Applies the color setting; 'auto' keeps chalk's own terminal detection
+export const setColorMode = (mode: 'auto' | 'always' | 'never' = 'auto') => {
+  if (mode === 'never') {
+    chalk.level = 0;
+  } else if (mode === 'always' && chalk.level === 0) {
+    chalk.level = 1;
+  }
+};
+
 // Use colors that work well on both dark and light terminals
 export const colors = {
   primary: chalk.cyan, // Works well on both backgrounds
@@ -55,6 +65,7 @@ export const createSpinner = (text: string) => {
       frames: ['⠋', '⠙', '⠹', '⠸', '⠼', '⠴', '⠦', '⠧', '⠇', '⠏'],
     },
     color: 'cyan',
+    isSilent: isJsonOutput(),
   });
 };
 
@@ -142,6 +153,19 @@ export const formatLink = (url: string, text?: string): string => {
   return clickableLink;
 };
 
+export const formatTimestamp = (unixSeconds: number): string => {
+  const date = new Date(unixSeconds * 1000);
+  const absolute = date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+  // Recent entries also get a relative age, e.g. "3h ago"
+  const age = Math.floor(Date.now() / 1000) - unixSeconds;
+  if (age < 0 || age >= 30 * 24 * 60 * 60) return absolute;
+  if (age < 60) return `${absolute} (just now)`;
+  if (age < 60 * 60) return `${absolute} (${Math.floor(age / 60)}m ago)`;
+  if (age < 24 * 60 * 60) return `${absolute} (${Math.floor(age / 3600)}h ago)`;
+  return `${absolute} (${Math.floor(age / 86400)}d ago)`;
+};
+
 export const formatTransaction = (type: 'send' | 'receive', amount: string, address: string): string => {
   const icon = type === 'send' ? icons.send : icons.receive;
   const color = type === 'send' ? colors.error : colors.success;
@@ -181,6 +205,8 @@ export const showWelcome = async () => {
 };
 
 export const animateSuccess = (message: string) => {
+  if (isJsonOutput()) return;
+
   const frames = ['🎯', '🎉', '✨', '🎊', '🌟', '⭐', '✅'];
   let i = 0;
   const interval = setInterval(() => {
@@ -194,7 +220,12 @@ export const animateSuccess = (message: string) => {
   }, 1000);
 };
 
+// Animations are suppressed in JSON mode so stdout carries only the JSON document
+const silentAnimation = { stop: (_showComplete: boolean = false) => {} };
+
 export const startTransactionAnimation = () => {
+  if (isJsonOutput()) return silentAnimation;
+
   const frames = [
     '📡 Broadcasting ',
     '📡 Broadcasting ▶',
@@ -225,6 +256,8 @@ export const startTransactionAnimation = () => {
 };
 
 export const showAirdropAnimation = async (showComplete: boolean = false) => {
+  if (isJsonOutput()) return;
+
   const frames = [
     '🪂 Requesting airdrop',
     '🪂 Requesting airdrop ▶',
@@ -246,6 +279,8 @@ export const showAirdropAnimation = async (showComplete: boolean = false) => {
 };
 
 export const startAirdropAnimation = () => {
+  if (isJsonOutput()) return silentAnimation;
+
   const frames = [
     '🪂 Requesting airdrop...',
     '🪂 ▶ Requesting airdrop...',
@@ -0,0 +1,47 @@
+import { spawn } from 'child_process';
+
+export type WatchEventKind = 'transaction' | 'confirmed';
+
+// One line of `mnee watch --ndjson`, and the payload handed to --exec hooks
+export interface WatchEvent {
+  event: WatchEventKind;
+  wallet: string;
+  environment: string;
+  txid: string;
+  type: 'send' | 'receive';
+  status: string;
+  amount: number;
+  fee: number;
+  height: number | null;
+  counterparties: { address: string; contact: string | null; amount: number }[];
+  detectedAt: string;
+}
+
+// Runs the hook through the shell with the event in MNEE_* variables and as JSON on stdin.
+// Resolves with the exit code, so a failing hook never stops the watcher. When stdout carries NDJSON, the hook's
+// output goes to stderr so it cannot break the stream.
+export const runWatchHook = (command: string, event: WatchEvent, stdoutToStderr = false): Promise<number | null> => {
+  return new Promise((resolve) => {
+    const child = spawn(command, {
+      shell: true,
+      stdio: ['pipe', stdoutToStderr ? process.stderr : 'inherit', 'inherit'],
+      env: {
+        ...process.env,
+        MNEE_EVENT: event.event,
+        MNEE_WALLET: event.wallet,
+        MNEE_ENVIRONMENT: event.environment,
+        MNEE_TXID: event.txid,
+        MNEE_TYPE: event.type,
+        MNEE_STATUS: event.status,
+        MNEE_AMOUNT: String(event.amount),
+        MNEE_COUNTERPARTY: event.counterparties[0]?.address || '',
+      },
+    });
+    child.on('error', () => resolve(null));
+    child.on('close', (code) => resolve(code));
+    child.stdin.on('error', () => {
+      // The hook does not read stdin
+    });
+    child.stdin.end(JSON.stringify(event) + '\n');
+  });
+};
@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CONFIG_DIR, ensureConfigDir } from './auth.js';
+
+export type WebhookEventType = 'transfer.received' | 'transfer.confirmed' | 'ticket.failed' | 'balance.low' | 'ping';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  'transfer.received',
+  'transfer.confirmed',
+  'ticket.failed',
+  'balance.low',
+];
+
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  createdAt: string;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface Delivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: WebhookEventType;
+  body: string; // exact JSON sent on every attempt
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const WEBHOOKS_FILE = path.join(CONFIG_DIR, 'webhooks.json');
+const DELIVERIES_FILE = path.join(CONFIG_DIR, 'deliveries.json');
+
+// Retries back off exponentially: 5s, 10s, 20s ... capped at an hour, giving up after MAX_ATTEMPTS
+export const MAX_ATTEMPTS = 8;
+const BACKOFF_BASE_MS = 5000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+// Finished deliveries kept in the log; pending ones are never dropped
+const MAX_LOG_ENTRIES = 1000;
+
+export const loadWebhooks = async (): Promise<Webhook[]> => {
+  try {
+    const data = JSON.parse(await fs.readFile(WEBHOOKS_FILE, 'utf-8'));
+    return Array.isArray(data?.webhooks) ? data.webhooks : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+// The file holds the signing secrets, so it is readable by the owner only
+export const saveWebhooks = async (webhooks: Webhook[]): Promise<void> => {
+  await ensureConfigDir();
+  await fs.writeFile(WEBHOOKS_FILE, JSON.stringify({ webhooks }, null, 2), { mode: 0o600 });
+};
+
+export const createWebhook = (url: string, events: WebhookEventType[]): Webhook => ({
+  id: crypto.randomBytes(4).toString('hex'),
+  url,
+  secret: crypto.randomBytes(32).toString('hex'),
+  events,
+  createdAt: new Date().toISOString(),
+});
+
+// Webhooks carry wallet activity, so plain http is only accepted for a local receiver
+export const validateWebhookUrl = (input: string): boolean | string => {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch (error) {
+    return 'Invalid URL';
+  }
+  if (url.protocol === 'https:') {
+    return true;
+  }
+  if (url.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)) {
+    return true;
+  }
+  return 'Webhook URLs must use https (http is only allowed for localhost)';
+};
+
+// HMAC-SHA256 over "<timestamp>.<body>", sent as "X-MNEE-Signature: sha256=<hex>"
+export const signWebhookBody = (secret: string, timestamp: string, body: string): string =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+export const verifyWebhookSignature = (secret: string, timestamp: string, body: string, signature: string): boolean => {
+  const expected = Buffer.from(`sha256=${signWebhookBody(secret, timestamp, body)}`);
+  const given = Buffer.from(signature);
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+};
+
+export const loadDeliveries = async (): Promise<Delivery[]> => {
+  try {
+    const data = JSON.parse(await fs.readFile(DELIVERIES_FILE, 'utf-8'));
+    return Array.isArray(data?.deliveries) ? data.deliveries : [];
+  } catch (error) {
+    return [];
+  }
+};
+
+export const saveDeliveries = async (deliveries: Delivery[]): Promise<void> => {
+  const finished = deliveries.filter((d) => d.status !== 'pending');
+  const dropped = new Set(finished.slice(0, Math.max(0, finished.length - MAX_LOG_ENTRIES)));
+  await ensureConfigDir();
+  const tmpFile = `${DELIVERIES_FILE}.${process.pid}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify({ deliveries: deliveries.filter((d) => !dropped.has(d)) }, null, 2));
+  await fs.rename(tmpFile, DELIVERIES_FILE);
+};
+
+// Creates one pending delivery per webhook subscribed to the event
+export const createDeliveries = (webhooks: Webhook[], event: WebhookEventType, data: unknown): Delivery[] => {
+  const now = new Date().toISOString();
+  return webhooks
+    .filter((webhook) => event === 'ping' || webhook.events.includes(event))
+    .map((webhook) => {
+      const id = crypto.randomUUID();
+      return {
+        id,
+        webhookId: webhook.id,
+        url: webhook.url,
+        event,
+        body: JSON.stringify({ id, type: event, createdAt: now, data }),
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: now,
+        responseStatus: null,
+        lastError: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+    });
+};
+
+const isRetryableStatus = (status: number): boolean => status === 408 || status === 429 || status >= 500;
+
+// Makes one attempt and updates the delivery in place: delivered on a 2xx, otherwise scheduled for a retry
+// until the attempts run out. Client errors other than 408/429 are not retried.
+export const attemptDelivery = async (delivery: Delivery, webhook: Webhook | undefined): Promise<Delivery> => {
+  const now = Date.now();
+  delivery.attempts++;
+  delivery.updatedAt = new Date(now).toISOString();
+
+  if (!webhook) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = null;
+    delivery.lastError = 'Webhook was removed';
+    return delivery;
+  }
+
+  let retryable = true;
+  try {
+    const timestamp = String(Math.floor(now / 1000));
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'mnee-cli',
+        'X-MNEE-Event': delivery.event,
+        'X-MNEE-Delivery': delivery.id,
+        'X-MNEE-Timestamp': timestamp,
+        'X-MNEE-Signature': `sha256=${signWebhookBody(webhook.secret, timestamp, delivery.body)}`,
+      },
+      body: delivery.body,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    delivery.responseStatus = response.status;
+    if (response.ok) {
+      delivery.status = 'delivered';
+      delivery.nextAttemptAt = null;
+      delivery.lastError = null;
+      return delivery;
+    }
+    delivery.lastError = `HTTP ${response.status}`;
+    retryable = isRetryableStatus(response.status);
+  } catch (error) {
+    delivery.responseStatus = null;
+    delivery.lastError = (error as Error).message;
+  }
+
+  if (!retryable || delivery.attempts >= MAX_ATTEMPTS) {
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = null;
+  } else {
+    const delay = Math.min(BACKOFF_BASE_MS * 2 ** (delivery.attempts - 1), BACKOFF_MAX_MS);
+    delivery.nextAttemptAt = new Date(now + delay).toISOString();
+  }
+  return delivery;
+};
+
+export const isDeliveryDue = (delivery: Delivery, now: number = Date.now()): boolean =>
+  delivery.status === 'pending' && (!delivery.nextAttemptAt || Date.parse(delivery.nextAttemptAt) <= now);